@@ -0,0 +1,88 @@
+import type { Metadata } from "next";
+import { getTranslations } from "next-intl/server";
+import { notFound } from "next/navigation";
+import { UnityLoader } from "@/components/unity/unity-loader";
+import { GameHeader } from "@/components/game-header";
+import { locales } from "@/i18n";
+import { getLocalizedText, selectGameBuild } from "@/lib/game-manifest";
+import { getGameById, getGames } from "@/lib/games";
+
+interface GamePageProps {
+  params: Promise<{ locale: string; id: string }>;
+  searchParams: Promise<{
+    build?: string | string[];
+    channel?: string | string[];
+  }>;
+}
+
+function getQueryValue(value: string | string[] | undefined) {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+export function generateStaticParams() {
+  return locales.flatMap((locale) =>
+    getGames().map((game) => ({ locale, id: game.id }))
+  );
+}
+
+export async function generateMetadata({
+  params,
+}: GamePageProps): Promise<Metadata> {
+  const { locale, id } = await params;
+  const game = getGameById(id);
+  if (!game) return {};
+
+  const t = await getTranslations({ locale });
+
+  return {
+    title: `${getLocalizedText(game.title, locale)} | ${t("home.title")}`,
+    description: getLocalizedText(game.description, locale),
+    openGraph: game.thumbnail ? { images: [game.thumbnail] } : undefined,
+  };
+}
+
+export default async function GamePage({
+  params,
+  searchParams,
+}: GamePageProps) {
+  const { id } = await params;
+  const query = await searchParams;
+  const game = getGameById(id);
+
+  if (!game) {
+    notFound();
+  }
+
+  const build = selectGameBuild(game, {
+    build: getQueryValue(query.build),
+    channel: getQueryValue(query.channel),
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-4 sm:py-6 lg:py-8">
+        <GameHeader title={game.title} description={game.description} />
+
+        <UnityLoader
+          gameId={game.id}
+          buildUrl={build.buildUrl}
+          buildFolder={build.buildFolder}
+          buildName={build.buildName}
+          buildId={build.id}
+          activeBuildIds={game.builds.map((item) => item.id)}
+          buildChannel={build.channel}
+          backgroundBehavior={game.backgroundBehavior}
+          aspectRatio={game.aspectRatio}
+          orientation={game.orientation}
+          scaleMode={game.scaleMode}
+          targetFrameRate={game.targetFrameRate}
+          screenshots={game.screenshots}
+          virtualControls={game.virtualControls}
+          settings={game.settings}
+          width="100%"
+          className="max-w-6xl mx-auto"
+        />
+      </div>
+    </div>
+  );
+}
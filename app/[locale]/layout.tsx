@@ -1,10 +1,10 @@
-import { NextIntlClientProvider } from "next-intl";
 import { getMessages, getTranslations } from "next-intl/server";
 import { notFound } from "next/navigation";
 import { locales } from "@/i18n";
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import { Header } from "@/components/header";
+import { LocaleProvider } from "@/components/locale-provider";
 import "../globals.css";
 
 const geistSans = Geist({
@@ -17,6 +17,11 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
+// 노치/홈 인디케이터 영역까지 그려야 가상 컨트롤이 safe-area inset 을 계산할 수 있음
+export const viewport: Viewport = {
+  viewportFit: "cover",
+};
+
 export async function generateMetadata({
   params,
 }: {
@@ -51,10 +56,10 @@ export default async function LocaleLayout({
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        <NextIntlClientProvider messages={messages}>
+        <LocaleProvider locale={locale} messages={messages}>
           <Header />
           {children}
-        </NextIntlClientProvider>
+        </LocaleProvider>
       </body>
     </html>
   );
@@ -1,3 +1,4 @@
+import Image from "next/image";
 import Link from "next/link";
 import {
   Card,
@@ -6,9 +7,13 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { games } from "@/lib/games";
+import { getLocalizedText } from "@/lib/game-manifest";
+import { getGames } from "@/lib/games";
 import { getTranslations } from "next-intl/server";
 
+// 정적 생성된 목록도 새로 가져온 게임을 반영하도록 주기적으로 다시 렌더링
+export const revalidate = 60;
+
 export default async function Home({
   params,
 }: {
@@ -16,6 +21,7 @@ export default async function Home({
 }) {
   const { locale } = await params;
   const t = await getTranslations();
+  const games = getGames();
 
   return (
     <div className="min-h-screen bg-background">
@@ -30,16 +36,34 @@ export default async function Home({
               <Card className="hover:shadow-lg transition-shadow cursor-pointer h-full">
                 <CardHeader>
                   <div className="aspect-video bg-muted rounded-lg mb-4 flex items-center justify-center overflow-hidden relative">
-                    <div className="text-4xl">🎮</div>
+                    {game.thumbnail ? (
+                      <Image
+                        src={game.thumbnail}
+                        alt=""
+                        fill
+                        sizes="(min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw"
+                        className="object-cover"
+                      />
+                    ) : (
+                      <div className="text-4xl">🎮</div>
+                    )}
                   </div>
-                  <CardTitle>
-                    {t(`games.${game.id}.title`, { defaultValue: game.title })}
-                  </CardTitle>
+                  <CardTitle>{getLocalizedText(game.title, locale)}</CardTitle>
                   <CardDescription>
-                    {t(`games.${game.id}.description`, {
-                      defaultValue: game.description,
-                    })}
+                    {getLocalizedText(game.description, locale)}
                   </CardDescription>
+                  {game.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 pt-2">
+                      {game.tags.map((tag) => (
+                        <span
+                          key={tag}
+                          className="rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground"
+                        >
+                          {tag}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                 </CardHeader>
                 <CardContent>
                   <p className="text-sm text-muted-foreground">
@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import {
+  createAssetStream,
+  getGameAsset,
+  parseRangeHeader,
+  resolveGameAssetPath,
+  type GameAsset,
+} from "@/lib/game-assets";
+import { DECODED_LENGTH_HEADER } from "@/lib/unity/compression";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * middleware 가 `/game/**` 파일 요청을 이곳으로 rewrite 합니다.
+ */
+interface RouteContext {
+  params: Promise<{ path: string[] }>;
+}
+
+function getBaseHeaders(asset: GameAsset) {
+  const headers = new Headers({
+    "Content-Type": asset.contentType,
+    ETag: asset.etag,
+    "Accept-Ranges": "bytes",
+    // 버전 폴더 밖 파일은 같은 URL 로 교체될 수 있으므로 매번 ETag 로 재검증
+    "Cache-Control": asset.immutable
+      ? "public, max-age=31536000, immutable"
+      : "public, no-cache",
+  });
+  if (asset.contentEncoding) {
+    headers.set("Content-Encoding", asset.contentEncoding);
+  }
+  if (asset.decodedSize !== null) {
+    headers.set(DECODED_LENGTH_HEADER, String(asset.decodedSize));
+  }
+  return headers;
+}
+
+function matchesEtag(header: string | null, etag: string) {
+  if (!header) return false;
+  return (
+    header.trim() === "*" ||
+    header.split(",").some((value) => value.trim() === etag)
+  );
+}
+
+async function serve(request: Request, { params }: RouteContext) {
+  const { path: segments } = await params;
+  const filePath = resolveGameAssetPath(segments);
+  const asset = filePath ? await getGameAsset(filePath) : null;
+  if (!asset) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const headers = getBaseHeaders(asset);
+  if (matchesEtag(request.headers.get("If-None-Match"), asset.etag)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  // If-Range 가 현재 ETag 와 다르면 범위를 무시하고 전체를 보냄
+  const ifRange = request.headers.get("If-Range");
+  const range =
+    ifRange && ifRange !== asset.etag
+      ? null
+      : parseRangeHeader(request.headers.get("Range"), asset.size);
+
+  if (range === "unsatisfiable") {
+    headers.set("Content-Range", `bytes */${asset.size}`);
+    return new NextResponse(null, { status: 416, headers });
+  }
+
+  const isHead = request.method === "HEAD";
+  if (range) {
+    headers.set(
+      "Content-Range",
+      `bytes ${range.start}-${range.end}/${asset.size}`
+    );
+    headers.set("Content-Length", String(range.end - range.start + 1));
+    return new NextResponse(isHead ? null : createAssetStream(asset, range), {
+      status: 206,
+      headers,
+    });
+  }
+
+  headers.set("Content-Length", String(asset.size));
+  return new NextResponse(isHead ? null : createAssetStream(asset), {
+    headers,
+  });
+}
+
+export const GET = serve;
+export const HEAD = serve;
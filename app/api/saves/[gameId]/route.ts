@@ -0,0 +1,94 @@
+import { NextResponse } from "next/server";
+import {
+  isValidDeviceId,
+  isValidSaveGameId,
+  MAX_SAVE_ARCHIVE_BYTES,
+  readSaveArchive,
+  writeSaveArchive,
+} from "@/lib/save-store";
+import { DEVICE_ID_HEADER, parseSaveArchive } from "@/lib/unity/saves";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: Promise<{ gameId: string }>;
+}
+
+/**
+ * 한도를 넘으면 끝까지 읽지 않고 null. Content-Length 가 없거나 틀려도 스트림에서 다시 확인
+ */
+async function readBodyWithLimit(request: Request, limit: number) {
+  const declared = Number(request.headers.get("content-length"));
+  if (declared > limit) return null;
+  if (!request.body) return "";
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { gameId } = await params;
+  if (!isValidSaveGameId(gameId)) {
+    return NextResponse.json({ error: "Invalid game id" }, { status: 400 });
+  }
+  const deviceId = request.headers.get(DEVICE_ID_HEADER);
+  if (!isValidDeviceId(deviceId)) {
+    return NextResponse.json({ error: "Missing device id" }, { status: 401 });
+  }
+
+  const body = await readSaveArchive(gameId, deviceId);
+  if (body === null) {
+    return NextResponse.json({ error: "No saves" }, { status: 404 });
+  }
+  return new NextResponse(body, {
+    headers: {
+      "Content-Type": "application/json",
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { gameId } = await params;
+  if (!isValidSaveGameId(gameId)) {
+    return NextResponse.json({ error: "Invalid game id" }, { status: 400 });
+  }
+
+  const deviceId = request.headers.get(DEVICE_ID_HEADER);
+  if (!isValidDeviceId(deviceId)) {
+    return NextResponse.json({ error: "Missing device id" }, { status: 401 });
+  }
+
+  const body = await readBodyWithLimit(request, MAX_SAVE_ARCHIVE_BYTES);
+  if (body === null) {
+    return NextResponse.json({ error: "Archive too large" }, { status: 413 });
+  }
+
+  try {
+    parseSaveArchive(JSON.parse(body), gameId);
+  } catch (parseError) {
+    return NextResponse.json(
+      {
+        error:
+          parseError instanceof Error ? parseError.message : "Invalid archive",
+      },
+      { status: 400 }
+    );
+  }
+
+  await writeSaveArchive(gameId, deviceId, body);
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,37 @@
+"use client";
+
+import Link from "next/link";
+import { useLocale, useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import { getLocalizedText, type LocalizedText } from "@/lib/game-manifest";
+
+interface GameHeaderProps {
+  title: LocalizedText;
+  description: LocalizedText;
+}
+
+/**
+ * 게임 페이지 상단. 로케일을 제자리에서 바꿔도 다시 번역되도록 클라이언트에서 렌더링
+ */
+export function GameHeader({ title, description }: GameHeaderProps) {
+  const locale = useLocale();
+  const t = useTranslations();
+
+  return (
+    <div className="mb-4 sm:mb-6">
+      <Link href={`/${locale}`}>
+        <Button variant="outline" className="mb-3 sm:mb-4 text-sm sm:text-base">
+          ← {t("common.gameList")}
+        </Button>
+      </Link>
+      <div className="text-center mb-6 sm:mb-8">
+        <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold mb-2">
+          {getLocalizedText(title, locale)}
+        </h1>
+        <p className="text-sm sm:text-base text-muted-foreground">
+          {getLocalizedText(description, locale)}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+"use client";
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { NextIntlClientProvider, type AbstractIntlMessages } from "next-intl";
+import { usePathname, useRouter } from "next/navigation";
+import { locales, type Locale } from "@/i18n";
+
+interface LocaleSwitchContextValue {
+  switchLocale: (locale: Locale) => void;
+  /**
+   * 등록된 동안에는 페이지를 다시 불러오지 않고 URL 과 메시지만 교체합니다.
+   * 실행 중인 Unity 인스턴스처럼 리마운트되면 안 되는 화면에서 사용합니다.
+   */
+  retainPage: () => () => void;
+}
+
+const LocaleSwitchContext = createContext<LocaleSwitchContextValue | null>(
+  null
+);
+
+function isLocale(value: string | undefined): value is Locale {
+  return !!value && locales.includes(value as Locale);
+}
+
+function getLocalizedPath(pathname: string, locale: Locale) {
+  const segments = pathname.split("/");
+  if (isLocale(segments[1])) {
+    segments[1] = locale;
+  } else {
+    segments.splice(1, 0, locale);
+  }
+  return segments.join("/");
+}
+
+async function loadMessages(locale: Locale): Promise<AbstractIntlMessages> {
+  return (await import(`@/messages/${locale}.json`)).default;
+}
+
+interface LocaleProviderProps {
+  locale: string;
+  messages: AbstractIntlMessages;
+  children: React.ReactNode;
+}
+
+export function LocaleProvider({
+  locale: serverLocale,
+  messages: serverMessages,
+  children,
+}: LocaleProviderProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [current, setCurrent] = useState({
+    locale: serverLocale,
+    messages: serverMessages,
+    source: serverLocale,
+  });
+  const retainCountRef = useRef(0);
+
+  // 서버 내비게이션으로 레이아웃이 다시 렌더링되면 서버 값을 따름
+  if (current.source !== serverLocale) {
+    setCurrent({
+      locale: serverLocale,
+      messages: serverMessages,
+      source: serverLocale,
+    });
+  }
+
+  // 제자리 전환(pushState)이나 그 뒤의 뒤로/앞으로 가기로 URL 로케일만 바뀐 경우
+  // 메시지를 직접 불러와 교체
+  const urlLocale = pathname.split("/")[1];
+  useEffect(() => {
+    if (!isLocale(urlLocale) || urlLocale === current.locale) return;
+    let cancelled = false;
+    loadMessages(urlLocale)
+      .then((messages) => {
+        if (cancelled) return;
+        setCurrent((previous) => ({
+          ...previous,
+          locale: urlLocale,
+          messages,
+        }));
+      })
+      .catch((loadError) => {
+        if (cancelled) return;
+        console.warn(
+          "[LocaleProvider] Failed to load messages, reloading page:",
+          loadError
+        );
+        window.location.reload();
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [urlLocale, current.locale]);
+
+  useEffect(() => {
+    document.documentElement.lang = current.locale;
+  }, [current.locale]);
+
+  const switchLocale = useCallback(
+    (locale: Locale) => {
+      const path = getLocalizedPath(window.location.pathname, locale);
+      const url = `${path}${window.location.search}${window.location.hash}`;
+      if (retainCountRef.current > 0) {
+        window.history.pushState(null, "", url);
+      } else {
+        router.push(url);
+      }
+    },
+    [router]
+  );
+
+  const retainPage = useCallback(() => {
+    retainCountRef.current += 1;
+    return () => {
+      retainCountRef.current -= 1;
+    };
+  }, []);
+
+  const value = useMemo(
+    () => ({ switchLocale, retainPage }),
+    [switchLocale, retainPage]
+  );
+
+  return (
+    <LocaleSwitchContext.Provider value={value}>
+      <NextIntlClientProvider
+        locale={current.locale}
+        messages={current.messages}
+      >
+        {children}
+      </NextIntlClientProvider>
+    </LocaleSwitchContext.Provider>
+  );
+}
+
+export function useLocaleSwitch() {
+  const context = useContext(LocaleSwitchContext);
+  if (!context) {
+    throw new Error("useLocaleSwitch must be used within a LocaleProvider");
+  }
+  return context;
+}
@@ -1,24 +1,13 @@
 "use client";
 
 import { useLocale } from "next-intl";
-import { usePathname, useRouter } from "next/navigation";
 import { locales, type Locale } from "@/i18n";
+import { useLocaleSwitch } from "@/components/locale-provider";
 import { Button } from "@/components/ui/button";
 
 export function LocaleSwitcher() {
   const locale = useLocale() as Locale;
-  const router = useRouter();
-  const pathname = usePathname();
-
-  const switchLocale = (newLocale: Locale) => {
-    const segments = pathname.split("/");
-    if (segments[1] && locales.includes(segments[1] as Locale)) {
-      segments[1] = newLocale;
-    } else {
-      segments.splice(1, 0, newLocale);
-    }
-    router.push(segments.join("/"));
-  };
+  const { switchLocale } = useLocaleSwitch();
 
   return (
     <div className="flex gap-2">
@@ -27,7 +16,7 @@ export function LocaleSwitcher() {
           key={loc}
           variant={locale === loc ? "default" : "outline"}
           size="sm"
-          onClick={() => switchLocale(loc)}
+          onClick={() => loc !== locale && switchLocale(loc)}
         >
           {loc.toUpperCase()}
         </Button>
@@ -35,4 +24,3 @@ export function LocaleSwitcher() {
     </div>
   );
 }
-
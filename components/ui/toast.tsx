@@ -0,0 +1,163 @@
+"use client"
+
+import * as React from "react"
+import { cva } from "class-variance-authority"
+
+import type { ToastItem, ToastType } from "@/hooks/use-toast"
+import { cn } from "@/lib/utils"
+
+const toastVariants = cva(
+  "pointer-events-auto w-full rounded-md border px-3 py-2 text-xs sm:text-sm shadow-lg backdrop-blur",
+  {
+    variants: {
+      type: {
+        info: "border-white/20 bg-neutral-900/90 text-white",
+        warning: "border-yellow-400/40 bg-yellow-950/90 text-yellow-100",
+        error: "border-red-400/40 bg-red-950/90 text-red-100",
+      },
+    },
+    defaultVariants: {
+      type: "info",
+    },
+  }
+)
+
+const SUMMARY_LENGTH = 120
+
+export interface ToastLabels {
+  types: Record<ToastType, string>
+  dismiss: string
+  showDetails: string
+  hideDetails: string
+}
+
+// Unity 배너 메시지에는 HTML이 섞여 있을 수 있어 텍스트만 표시
+function toPlainText(message: string) {
+  return message.replace(/<[^>]*>/g, "").trim()
+}
+
+function Toast({
+  toast,
+  labels,
+  duration,
+  onDismiss,
+}: {
+  toast: ToastItem
+  labels: ToastLabels
+  duration: number
+  onDismiss: (id: number) => void
+}) {
+  const [expanded, setExpanded] = React.useState(false)
+  const text = toPlainText(toast.message)
+  const firstLine = text.split("\n")[0]
+  const summary =
+    firstLine.length > SUMMARY_LENGTH
+      ? `${firstLine.slice(0, SUMMARY_LENGTH)}…`
+      : firstLine
+  const hasDetails = summary !== text
+
+  // 상세 내용을 펼친 동안에는 자동으로 닫지 않음
+  React.useEffect(() => {
+    if (expanded || duration <= 0) return
+    const timer = setTimeout(() => onDismiss(toast.id), duration)
+    return () => clearTimeout(timer)
+  }, [expanded, duration, onDismiss, toast.id, toast.count])
+
+  return (
+    <div
+      data-slot="toast"
+      role={toast.type === "info" ? "status" : "alert"}
+      className={toastVariants({ type: toast.type })}
+    >
+      <div className="flex items-start gap-2">
+        <div className="min-w-0 flex-1">
+          <p className="font-semibold">
+            {labels.types[toast.type]}
+            {toast.count > 1 && (
+              <span className="ml-1 font-normal opacity-70">
+                ×{toast.count}
+              </span>
+            )}
+          </p>
+          <p className={cn("break-words", expanded && "hidden")}>{summary}</p>
+          {expanded && (
+            <pre className="mt-1 max-h-40 overflow-auto whitespace-pre-wrap break-words font-mono text-[10px] sm:text-xs opacity-90">
+              {text}
+            </pre>
+          )}
+          {hasDetails && (
+            <button
+              type="button"
+              className="mt-1 underline underline-offset-2 opacity-80 hover:opacity-100"
+              onClick={() => setExpanded((value) => !value)}
+            >
+              {expanded ? labels.hideDetails : labels.showDetails}
+            </button>
+          )}
+        </div>
+        <button
+          type="button"
+          aria-label={labels.dismiss}
+          className="shrink-0 opacity-70 hover:opacity-100"
+          onClick={() => onDismiss(toast.id)}
+        >
+          <svg
+            className="size-4"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M6 18L18 6M6 6l12 12"
+            />
+          </svg>
+        </button>
+      </div>
+    </div>
+  )
+}
+
+function Toaster({
+  toasts,
+  labels,
+  onDismiss,
+  duration = 6000,
+  limit = 3,
+  className,
+}: {
+  toasts: ToastItem[]
+  labels: ToastLabels
+  onDismiss: (id: number) => void
+  duration?: number
+  /** 동시에 보여줄 최대 개수. 나머지는 대기열에서 순서대로 표시 */
+  limit?: number
+  className?: string
+}) {
+  if (toasts.length === 0) return null
+
+  return (
+    <div
+      data-slot="toaster"
+      aria-live="polite"
+      className={cn(
+        "pointer-events-none absolute bottom-4 left-1/2 z-40 flex w-[min(24rem,calc(100%-2rem))] -translate-x-1/2 flex-col gap-2",
+        className
+      )}
+    >
+      {toasts.slice(0, limit).map((toast) => (
+        <Toast
+          key={toast.id}
+          toast={toast}
+          labels={labels}
+          duration={duration}
+          onDismiss={onDismiss}
+        />
+      ))}
+    </div>
+  )
+}
+
+export { Toast, Toaster, toastVariants }
@@ -0,0 +1,73 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import type { BuildConfigIssue } from "@/lib/unity/build-config";
+import { cn } from "@/lib/utils";
+
+interface BuildConfigWarningsProps {
+  issues: BuildConfigIssue[];
+  className?: string;
+}
+
+// 개발 환경에서만 Build.json 스키마 문제를 화면에 표시
+export function BuildConfigWarnings({
+  issues,
+  className,
+}: BuildConfigWarningsProps) {
+  const t = useTranslations("game.buildConfig");
+  const [dismissed, setDismissed] = useState(false);
+
+  if (
+    process.env.NODE_ENV === "production" ||
+    issues.length === 0 ||
+    dismissed
+  ) {
+    return null;
+  }
+
+  const hasErrors = issues.some((issue) => issue.severity === "error");
+
+  return (
+    <div
+      role="alert"
+      className={cn(
+        "rounded-lg border p-3 text-xs sm:text-sm",
+        hasErrors
+          ? "border-red-300 bg-red-50 text-red-900 dark:border-red-900 dark:bg-red-950 dark:text-red-200"
+          : "border-yellow-300 bg-yellow-50 text-yellow-900 dark:border-yellow-900 dark:bg-yellow-950 dark:text-yellow-200",
+        className
+      )}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <p className="font-semibold">{t("title")}</p>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          onClick={() => setDismissed(true)}
+        >
+          {t("dismiss")}
+        </Button>
+      </div>
+      <ul className="mt-2 space-y-1">
+        {issues.map((issue, index) => (
+          <li key={`${issue.code}:${issue.field ?? ""}:${index}`}>
+            <span className="font-mono uppercase text-[10px] mr-2">
+              {t(`severity.${issue.severity}`)}
+            </span>
+            {issue.field && (
+              <code className="font-mono mr-1">{issue.field}</code>
+            )}
+            {t(`issues.${issue.code}`)}
+            {issue.detail && (
+              <span className="opacity-70"> ({issue.detail})</span>
+            )}
+          </li>
+        ))}
+      </ul>
+      <p className="mt-2 opacity-70">{t("fallbackNotice")}</p>
+    </div>
+  );
+}
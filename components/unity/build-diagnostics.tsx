@@ -0,0 +1,104 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import type { ResolvedUnityBuild } from "@/lib/unity/build";
+import {
+  runBuildPreflight,
+  type PreflightFileResult,
+} from "@/lib/unity/preflight";
+import { cn, formatBytes } from "@/lib/utils";
+
+interface BuildDiagnosticsProps {
+  build: ResolvedUnityBuild;
+  className?: string;
+}
+
+const statusClassName: Record<PreflightFileResult["status"], string> = {
+  ok: "text-green-400",
+  missing: "text-red-400",
+  misconfigured: "text-yellow-300",
+  unreachable: "text-red-400",
+};
+
+function getFileName(url: string) {
+  const path = url.split("?")[0].replace(/\/$/, "");
+  return path.slice(path.lastIndexOf("/") + 1) || url;
+}
+
+export function BuildDiagnostics({ build, className }: BuildDiagnosticsProps) {
+  const t = useTranslations("game.preflight");
+  const [results, setResults] = useState<PreflightFileResult[] | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    runBuildPreflight(build, controller.signal)
+      .then(setResults)
+      .catch(() => {});
+    return () => controller.abort();
+  }, [build]);
+
+  if (!results) {
+    return (
+      <p className={cn("text-[10px] sm:text-xs text-gray-400", className)}>
+        {t("checking")}
+      </p>
+    );
+  }
+
+  return (
+    <div className={cn("w-full max-w-2xl overflow-x-auto", className)}>
+      <table className="w-full text-left text-[10px] sm:text-xs text-gray-300">
+        <caption className="mb-1 text-gray-400">{t("title")}</caption>
+        <thead className="text-gray-400">
+          <tr>
+            <th className="px-2 py-1 font-medium">{t("file")}</th>
+            <th className="px-2 py-1 font-medium">{t("status")}</th>
+            <th className="px-2 py-1 font-medium">{t("size")}</th>
+            <th className="px-2 py-1 font-medium">{t("contentType")}</th>
+            <th className="px-2 py-1 font-medium">{t("contentEncoding")}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {results.map((result) => (
+            <tr
+              key={`${result.kind}:${result.url}`}
+              className="border-t border-white/10"
+            >
+              <td className="px-2 py-1" title={result.url}>
+                <span className="text-gray-400">
+                  {t(`kinds.${result.kind}`)}
+                </span>{" "}
+                {getFileName(result.url)}
+              </td>
+              <td
+                className={cn(
+                  "px-2 py-1",
+                  result.optional && result.status === "missing"
+                    ? "text-gray-400"
+                    : statusClassName[result.status]
+                )}
+              >
+                {t(`statuses.${result.status}`)}
+                {result.httpStatus && result.status === "missing"
+                  ? ` (${result.httpStatus})`
+                  : ""}
+                {result.optional && ` · ${t("optional")}`}
+                {result.issues.map((issue) => (
+                  <span key={issue} className="block">
+                    {t(`issues.${issue}`)}
+                  </span>
+                ))}
+              </td>
+              <td className="px-2 py-1">
+                {result.size !== undefined ? formatBytes(result.size) : "-"}
+              </td>
+              <td className="px-2 py-1">{result.contentType ?? "-"}</td>
+              <td className="px-2 py-1">{result.contentEncoding ?? "-"}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
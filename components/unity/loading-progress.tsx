@@ -0,0 +1,125 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import type { UnityStatus } from "@/hooks/use-unity-instance";
+import {
+  UNITY_DOWNLOAD_PROGRESS,
+  type DownloadSnapshot,
+} from "@/lib/unity/download-tracker";
+import { formatBytes } from "@/lib/utils";
+
+// 진행 막대에서 다운로드 구간이 차지하는 비율 (나머지는 컴파일/초기화)
+const DOWNLOAD_SHARE = 0.8;
+const UNITY_DOWNLOAD_END = UNITY_DOWNLOAD_PROGRESS * 100;
+
+function clamp(value: number) {
+  return Math.min(1, Math.max(0, value));
+}
+
+export type LoadingPhase = "prepare" | "download" | "initialize";
+
+export function getLoadingPhase(
+  status: UnityStatus,
+  download: DownloadSnapshot | null
+): LoadingPhase {
+  if (status !== "instantiating") return "prepare";
+  return download?.done ? "initialize" : "download";
+}
+
+interface LoadingProgressProps {
+  status: UnityStatus;
+  progress: number;
+  download: DownloadSnapshot | null;
+}
+
+export function LoadingProgress({
+  status,
+  progress,
+  download,
+}: LoadingProgressProps) {
+  const t = useTranslations("game.loading");
+  const phase = getLoadingPhase(status, download);
+
+  const downloadRatio =
+    phase === "initialize"
+      ? 1
+      : download?.total
+        ? clamp(download.loaded / download.total)
+        : clamp(progress / UNITY_DOWNLOAD_END);
+  const initializeRatio =
+    phase === "initialize"
+      ? clamp((progress - UNITY_DOWNLOAD_END) / (100 - UNITY_DOWNLOAD_END))
+      : 0;
+
+  return (
+    <div className="w-full max-w-sm text-xs sm:text-sm">
+      <div className="flex h-2 w-full gap-1" aria-hidden>
+        <div
+          className="h-full overflow-hidden rounded-l-full bg-white/20"
+          style={{ flexBasis: `${DOWNLOAD_SHARE * 100}%` }}
+        >
+          <div
+            className="h-full bg-white transition-[width] duration-200"
+            style={{ width: `${downloadRatio * 100}%` }}
+          />
+        </div>
+        <div
+          className="h-full overflow-hidden rounded-r-full bg-white/20"
+          style={{ flexBasis: `${(1 - DOWNLOAD_SHARE) * 100}%` }}
+        >
+          <div
+            className={`h-full bg-sky-300 transition-[width] duration-200 ${
+              phase === "initialize" ? "animate-pulse" : ""
+            }`}
+            style={{ width: `${initializeRatio * 100}%` }}
+          />
+        </div>
+      </div>
+      <div className="mt-1 flex justify-between text-[10px] text-gray-400">
+        <span>{t("phaseDownload")}</span>
+        <span>{t("phaseInitialize")}</span>
+      </div>
+
+      <p className="mt-3 text-center" role="status">
+        {phase === "prepare" && t("preparing")}
+        {phase === "initialize" && t("initializing")}
+        {phase === "download" &&
+          (download
+            ? download.total !== undefined
+              ? t("downloading", {
+                  loaded: formatBytes(download.loaded),
+                  total: formatBytes(download.total),
+                })
+              : t("downloadingUnknown", {
+                  loaded: formatBytes(download.loaded),
+                })
+            : t("progress", { progress }))}
+      </p>
+
+      {phase === "download" && download && download.bytesPerSecond > 0 && (
+        <p className="mt-1 text-center text-[10px] sm:text-xs text-gray-300">
+          {t("speed", { speed: formatBytes(download.bytesPerSecond) })}
+          {download.etaSeconds !== undefined &&
+            ` · ${t("eta", { seconds: Math.ceil(download.etaSeconds) })}`}
+        </p>
+      )}
+
+      {download && (
+        <ul className="mt-2 space-y-0.5 text-[10px] sm:text-xs text-gray-400">
+          {download.assets.map((asset) => (
+            <li key={asset.url} className="flex justify-between gap-4">
+              <span>{t(`assets.${asset.kind}`)}</span>
+              <span>
+                {asset.cached ? t("cached") : formatBytes(asset.loaded)}
+                {asset.total !== undefined &&
+                  !asset.done &&
+                  ` / ${formatBytes(asset.total)}`}
+                {asset.done && " ✓"}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
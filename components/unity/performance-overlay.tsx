@@ -0,0 +1,52 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import type {
+  FrameStats,
+  RenderResolution,
+} from "@/hooks/use-adaptive-resolution";
+import { formatBytes } from "@/lib/utils";
+
+interface PerformanceOverlayProps {
+  stats: FrameStats | null;
+  resolution: RenderResolution | null;
+}
+
+export function PerformanceOverlay({
+  stats,
+  resolution,
+}: PerformanceOverlayProps) {
+  const t = useTranslations("game.performance");
+
+  const rows: [string, string][] = [
+    [t("fps"), stats ? stats.fps.toFixed(0) : "–"],
+    [t("frameTime"), stats ? `${stats.frameTime.toFixed(1)} ms` : "–"],
+    [
+      t("resolution"),
+      resolution ? `${resolution.width}×${resolution.height}` : "–",
+    ],
+    [
+      t("quality"),
+      resolution
+        ? `${Math.round(resolution.scale * 100)}% @ ${resolution.devicePixelRatio}x`
+        : "–",
+    ],
+    [
+      t("heap"),
+      stats?.heapUsed !== undefined && stats.heapLimit !== undefined
+        ? `${formatBytes(stats.heapUsed)} / ${formatBytes(stats.heapLimit)}`
+        : t("heapUnavailable"),
+    ],
+  ];
+
+  return (
+    <div className="pointer-events-none absolute top-2 left-2 z-30 rounded bg-black/70 px-2 py-1 font-mono text-[10px] sm:text-xs text-green-300">
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex justify-between gap-3">
+          <span className="text-gray-400">{label}</span>
+          <span>{value}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
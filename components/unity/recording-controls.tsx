@@ -0,0 +1,112 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import type { useClipRecorder } from "@/hooks/use-clip-recorder";
+import { cn } from "@/lib/utils";
+
+interface RecordingControlsProps {
+  recorder: ReturnType<typeof useClipRecorder>;
+  /** 전체화면 오버레이용 반투명 스타일 */
+  overlay?: boolean;
+}
+
+function formatDuration(seconds: number) {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+export function RecordingControls({
+  recorder,
+  overlay = false,
+}: RecordingControlsProps) {
+  const t = useTranslations("game.recording");
+  const buttonClass = cn(
+    overlay && "bg-white/10 hover:bg-white/20 text-white border-white/30"
+  );
+
+  if (!recorder.supported) return null;
+
+  if (recorder.status === "recording") {
+    return (
+      <Button
+        onClick={() => recorder.stop()}
+        variant="outline"
+        size="sm"
+        className={cn(buttonClass, "text-red-600", overlay && "text-red-300")}
+      >
+        <span className="mr-2 inline-block size-2.5 rounded-sm bg-current" />
+        <span className="tabular-nums">
+          {formatDuration(recorder.elapsed)} /{" "}
+          {formatDuration(recorder.maxDuration)}
+        </span>
+        <span className="sr-only">{t("stop")}</span>
+      </Button>
+    );
+  }
+
+  if (recorder.status === "buffering") {
+    return (
+      <>
+        <Button
+          onClick={() => recorder.saveBuffer()}
+          variant="outline"
+          size="sm"
+          className={buttonClass}
+        >
+          <span className="mr-2 inline-block size-2.5 animate-pulse rounded-full bg-red-500" />
+          {t("saveBuffer", {
+            seconds: Math.min(recorder.elapsed, recorder.bufferDuration),
+          })}
+        </Button>
+        <Button
+          onClick={() => recorder.stop(true)}
+          variant="outline"
+          size="sm"
+          className={buttonClass}
+          aria-label={t("stopBuffer")}
+          title={t("stopBuffer")}
+        >
+          ×
+        </Button>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Button
+        onClick={recorder.startClip}
+        variant="outline"
+        size="sm"
+        className={buttonClass}
+        title={t("record", { seconds: recorder.maxDuration })}
+      >
+        <span className="sm:mr-2 inline-block size-2.5 rounded-full bg-red-500" />
+        <span className="hidden sm:inline">{t("start")}</span>
+      </Button>
+      <Button
+        onClick={recorder.startBuffer}
+        variant="outline"
+        size="sm"
+        className={buttonClass}
+        title={t("buffer", { seconds: recorder.bufferDuration })}
+      >
+        <svg
+          className="w-4 h-4 sm:mr-2"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+          />
+        </svg>
+        <span className="hidden sm:inline">{t("replay")}</span>
+      </Button>
+    </>
+  );
+}
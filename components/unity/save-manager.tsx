@@ -0,0 +1,169 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import type { SaveManager as SaveManagerState } from "@/hooks/use-save-manager";
+import { formatBytes } from "@/lib/utils";
+
+interface SaveManagerProps {
+  open: boolean;
+  saves: SaveManagerState;
+  onNotify: (type: "info" | "warning", message: string) => void;
+  onClose: () => void;
+}
+
+// "/idbfs/<hash>/PlayerPrefs" -> "PlayerPrefs"
+function getDisplayPath(path: string, scope: string) {
+  return path.slice(scope.length + 1);
+}
+
+export function SaveManager({
+  open,
+  saves,
+  onNotify,
+  onClose,
+}: SaveManagerProps) {
+  const t = useTranslations("game.saves");
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [open, onClose]);
+
+  if (!open) return null;
+
+  const { scope } = saves;
+  const files = saves.files.filter((file) => file.contents !== null);
+  const disabled = saves.busy || !scope;
+
+  const perform = async (
+    action: () => Promise<unknown>,
+    successKey: string
+  ) => {
+    try {
+      const result = await action();
+      if (result === false) {
+        onNotify("warning", t("noBackup"));
+        return;
+      }
+      onNotify("info", t(successKey));
+    } catch (actionError) {
+      console.warn("[SaveManager] Save action failed:", actionError);
+      onNotify("warning", t("failed"));
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-40 flex justify-end">
+      <div
+        className="absolute inset-0 bg-black/50"
+        aria-hidden
+        onClick={onClose}
+      />
+      <aside
+        role="dialog"
+        aria-modal
+        aria-label={t("title")}
+        aria-busy={saves.busy}
+        className="relative flex h-full w-80 max-w-full flex-col gap-4 overflow-y-auto bg-background p-4 text-foreground shadow-xl"
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-base font-semibold">{t("title")}</h2>
+          <button
+            type="button"
+            aria-label={t("close")}
+            className="opacity-70 hover:opacity-100"
+            onClick={onClose}
+          >
+            <svg
+              className="size-5"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        {!scope ? (
+          <p className="text-sm text-muted-foreground">{t("noScope")}</p>
+        ) : files.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t("empty")}</p>
+        ) : (
+          <ul className="space-y-2 text-sm">
+            {files.map((file) => (
+              <li key={file.path} className="flex flex-col">
+                <span className="truncate font-mono" title={file.path}>
+                  {getDisplayPath(file.path, scope) || file.path}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {formatBytes(file.contents?.byteLength ?? 0)} ·{" "}
+                  {new Date(file.timestamp).toLocaleString()}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="mt-auto grid grid-cols-2 gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={disabled}
+            onClick={() => perform(saves.exportArchive, "exported")}
+          >
+            {t("export")}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={disabled}
+            onClick={() => inputRef.current?.click()}
+          >
+            {t("import")}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={disabled}
+            onClick={() => perform(saves.backup, "backedUp")}
+          >
+            {t("backup")}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={disabled}
+            onClick={() => perform(saves.restoreBackup, "restored")}
+          >
+            {t("restore")}
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">{t("restartNotice")}</p>
+        <input
+          ref={inputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            event.target.value = "";
+            if (file) perform(() => saves.importArchive(file), "imported");
+          }}
+        />
+      </aside>
+    </div>
+  );
+}
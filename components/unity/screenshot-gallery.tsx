@@ -0,0 +1,81 @@
+"use client";
+
+import Image from "next/image";
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import type { ScreenshotItem } from "@/hooks/use-screenshots";
+import { cn } from "@/lib/utils";
+
+interface ScreenshotGalleryProps {
+  shots: ScreenshotItem[];
+  onShare: (shot: ScreenshotItem) => void;
+  onDownload: (shot: ScreenshotItem) => void;
+  onDelete: (shot: ScreenshotItem) => void;
+  className?: string;
+}
+
+export function ScreenshotGallery({
+  shots,
+  onShare,
+  onDownload,
+  onDelete,
+  className,
+}: ScreenshotGalleryProps) {
+  const t = useTranslations("game.screenshot");
+
+  if (shots.length === 0) return null;
+
+  return (
+    <section className={cn("space-y-2", className)}>
+      <h3 className="text-sm font-semibold">{t("gallery")}</h3>
+      <ul className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-2 sm:gap-3">
+        {shots.map((shot) => (
+          <li
+            key={shot.id}
+            className="overflow-hidden rounded-md border bg-muted/40"
+          >
+            <div className="relative aspect-video w-full bg-black">
+              {/* blob URL 은 이미지 최적화 서버를 거칠 수 없으므로 그대로 표시 */}
+              <Image
+                src={shot.url}
+                alt={t("alt", {
+                  date: new Date(shot.createdAt).toLocaleString(),
+                })}
+                fill
+                unoptimized
+                className="object-contain"
+              />
+            </div>
+            <div className="flex gap-1 p-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="flex-1 text-xs"
+                onClick={() => onShare(shot)}
+              >
+                {t("share")}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="flex-1 text-xs"
+                onClick={() => onDownload(shot)}
+              >
+                {t("download")}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-xs text-destructive"
+                aria-label={t("delete")}
+                onClick={() => onDelete(shot)}
+              >
+                ×
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
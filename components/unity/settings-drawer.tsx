@@ -0,0 +1,167 @@
+"use client";
+
+import { useEffect } from "react";
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import type {
+  GameSettingDefinition,
+  GameSettingValue,
+  GameSettingsValues,
+} from "@/lib/game-settings";
+
+interface SettingsDrawerProps {
+  open: boolean;
+  definitions: GameSettingDefinition[];
+  values: GameSettingsValues;
+  onChange: (key: string, value: GameSettingValue) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+export function SettingsDrawer({
+  open,
+  definitions,
+  values,
+  onChange,
+  onReset,
+  onClose,
+}: SettingsDrawerProps) {
+  const t = useTranslations("game.settings");
+
+  useEffect(() => {
+    if (!open) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [open, onClose]);
+
+  if (!open) return null;
+
+  const fieldLabel = (def: GameSettingDefinition) =>
+    t.has(`fields.${def.key}`)
+      ? t(`fields.${def.key}`)
+      : (def.label ?? def.key);
+
+  return (
+    <div className="absolute inset-0 z-40 flex justify-end">
+      <div
+        className="absolute inset-0 bg-black/50"
+        aria-hidden
+        onClick={onClose}
+      />
+      <aside
+        role="dialog"
+        aria-modal
+        aria-label={t("title")}
+        className="relative flex h-full w-72 max-w-full flex-col gap-4 overflow-y-auto bg-background p-4 text-foreground shadow-xl"
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-base font-semibold">{t("title")}</h2>
+          <button
+            type="button"
+            aria-label={t("close")}
+            className="opacity-70 hover:opacity-100"
+            onClick={onClose}
+          >
+            <svg
+              className="size-5"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        {definitions.map((def) => {
+          const id = `game-setting-${def.key}`;
+          const value = values[def.key];
+
+          if (def.type === "toggle") {
+            return (
+              <label
+                key={def.key}
+                htmlFor={id}
+                className="flex items-center justify-between gap-2 text-sm"
+              >
+                {fieldLabel(def)}
+                <input
+                  id={id}
+                  type="checkbox"
+                  className="size-4"
+                  checked={value === true}
+                  onChange={(event) => onChange(def.key, event.target.checked)}
+                />
+              </label>
+            );
+          }
+
+          if (def.type === "select") {
+            return (
+              <div key={def.key} className="space-y-1 text-sm">
+                <label htmlFor={id} className="block">
+                  {fieldLabel(def)}
+                </label>
+                <select
+                  id={id}
+                  className="w-full rounded-md border bg-background px-2 py-1"
+                  value={String(value)}
+                  onChange={(event) => onChange(def.key, event.target.value)}
+                >
+                  {def.options.map((option) => {
+                    const key = `options.${def.key}.${option.value}`;
+                    return (
+                      <option key={option.value} value={option.value}>
+                        {t.has(key) ? t(key) : (option.label ?? option.value)}
+                      </option>
+                    );
+                  })}
+                </select>
+              </div>
+            );
+          }
+
+          return (
+            <div key={def.key} className="space-y-1 text-sm">
+              <label htmlFor={id} className="flex justify-between">
+                {fieldLabel(def)}
+                <span className="tabular-nums text-muted-foreground">
+                  {String(value)}
+                </span>
+              </label>
+              <input
+                id={id}
+                type="range"
+                className="w-full"
+                min={def.min}
+                max={def.max}
+                step={def.step}
+                value={Number(value)}
+                onChange={(event) =>
+                  onChange(def.key, Number(event.target.value))
+                }
+              />
+            </div>
+          );
+        })}
+
+        <Button
+          variant="outline"
+          size="sm"
+          className="mt-auto"
+          onClick={onReset}
+        >
+          {t("reset")}
+        </Button>
+      </aside>
+    </div>
+  );
+}
@@ -1,7 +1,14 @@
 "use client";
 
-import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  useCallback,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
 import { Button } from "@/components/ui/button";
+import { Toaster } from "@/components/ui/toast";
 import {
   Card,
   CardContent,
@@ -10,584 +17,291 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { useTranslations } from "next-intl";
-
-interface UnityBuildConfig {
-  buildName?: string;
-  dataUrl?: string;
-  frameworkUrl?: string;
-  codeUrl?: string | string[];
-  wasmCodeUrl?: string;
-  wasmFiles?: string[];
-  streamingAssetsUrl?: string;
-  companyName?: string;
-  productName?: string;
-  productVersion?: string;
-  arguments?: string[];
-}
-
-interface UnityInstanceConfig {
-  dataUrl: string;
-  frameworkUrl: string;
-  codeUrl: string | string[];
-  streamingAssetsUrl: string;
-  companyName: string;
-  productName: string;
-  productVersion: string;
-  arguments?: string[];
-  showBanner?: (msg: string, type: "error" | "warning" | "info") => void;
-  [key: string]: unknown;
-}
-
-interface UnityInstance {
-  Quit: () => void;
-  SendMessage: (
-    gameObjectName: string,
-    methodName: string,
-    value?: string | number | boolean
-  ) => void;
-  SetFullscreen: (fullscreen: boolean) => void;
-  [key: string]: unknown;
-}
-
-type UnityProgressCallback = (progress: number) => void;
-type CreateUnityInstance = (
-  canvas: HTMLCanvasElement,
-  config: UnityInstanceConfig,
-  onProgress?: UnityProgressCallback
-) => Promise<UnityInstance>;
-
-interface DocumentWithFullscreen extends Document {
-  webkitFullscreenElement?: Element | null;
-  mozFullScreenElement?: Element | null;
-  msFullscreenElement?: Element | null;
-  webkitExitFullscreen?: () => Promise<void>;
-  mozCancelFullScreen?: () => Promise<void>;
-  msExitFullscreen?: () => Promise<void>;
-}
-
-interface HTMLElementWithFullscreen extends HTMLElement {
-  webkitRequestFullscreen?: () => Promise<void>;
-  mozRequestFullScreen?: () => Promise<void>;
-  msRequestFullscreen?: () => Promise<void>;
-}
-
-interface ScreenOrientationWithLock {
-  lock: (
-    orientation:
-      | "portrait"
-      | "landscape"
-      | "portrait-primary"
-      | "portrait-secondary"
-      | "landscape-primary"
-      | "landscape-secondary"
-      | "natural"
-      | "any"
-  ) => Promise<void>;
-  unlock: () => void;
-}
-
-interface ScreenWithOrientation {
-  orientation?: ScreenOrientation & Partial<ScreenOrientationWithLock>;
-}
-
-declare global {
-  interface Window {
-    createUnityInstance?: CreateUnityInstance;
-  }
+import { BuildConfigWarnings } from "@/components/unity/build-config-warnings";
+import { BuildDiagnostics } from "@/components/unity/build-diagnostics";
+import { LoadingProgress } from "@/components/unity/loading-progress";
+import { PerformanceOverlay } from "@/components/unity/performance-overlay";
+import { RecordingControls } from "@/components/unity/recording-controls";
+import { SaveManager } from "@/components/unity/save-manager";
+import { ScreenshotGallery } from "@/components/unity/screenshot-gallery";
+import { SettingsDrawer } from "@/components/unity/settings-drawer";
+import { UnsupportedDevice } from "@/components/unity/unsupported-device";
+import { VirtualControls } from "@/components/unity/virtual-controls";
+import { getDeviceType, isIOS } from "@/lib/device";
+import type { BuildChannel } from "@/lib/game-manifest";
+import type { GameSettingDefinition } from "@/lib/game-settings";
+import { sendUnityMessage } from "@/lib/unity/bridge";
+import type { CapabilityReport } from "@/lib/unity/capabilities";
+import { flushUnitySaves } from "@/lib/unity/saves";
+import {
+  getCanvasLayoutSize,
+  resolveGameLayout,
+  type GameOrientation,
+  type ScaleMode,
+} from "@/lib/unity/layout";
+import type { BackgroundBehavior, UnityInstance } from "@/lib/unity/types";
+import type { VirtualControlsConfig } from "@/lib/virtual-controls";
+import { useAdaptiveResolution } from "@/hooks/use-adaptive-resolution";
+import { useClipRecorder } from "@/hooks/use-clip-recorder";
+import { useElementSize } from "@/hooks/use-element-size";
+import { useGameSettings } from "@/hooks/use-game-settings";
+import { useGamepads } from "@/hooks/use-gamepads";
+import { useSaveManager } from "@/hooks/use-save-manager";
+import { useFullscreen } from "@/hooks/use-fullscreen";
+import { useScreenshots } from "@/hooks/use-screenshots";
+import { useBackgroundPause } from "@/hooks/use-background-pause";
+import { useToast } from "@/hooks/use-toast";
+import { useUnityLocale } from "@/hooks/use-unity-locale";
+import { isUnityLoading, useUnityInstance } from "@/hooks/use-unity-instance";
+
+// 화면 폭도 모바일 판단에 쓰이므로 크기가 바뀌면 다시 계산
+function subscribeResize(callback: () => void) {
+  window.addEventListener("resize", callback);
+  return () => window.removeEventListener("resize", callback);
 }
 
 interface UnityLoaderProps {
+  gameId?: string;
   buildUrl?: string;
   buildFolder?: string;
   buildName?: string;
+  /** 빌드 캐시를 나누는 id. Build.json 에 productVersion 이 없으면 버전 배지에도 표시 */
+  buildId?: string;
+  /** 카탈로그에 남아 있는 빌드 id. 목록에 없는 빌드의 캐시는 삭제 */
+  activeBuildIds?: string[];
+  /** 버전 배지에 함께 표시할 릴리스 채널 */
+  buildChannel?: BuildChannel;
   width?: number | string;
   height?: number | string;
   className?: string;
+  /** 탭이 숨겨지거나 화면 밖으로 스크롤되었을 때의 동작 */
+  backgroundBehavior?: BackgroundBehavior;
+  /** 게임 화면 비율 ("16:9", "9:16" 등). 기본값 16:9 */
+  aspectRatio?: string | number;
+  /** 전체화면에서 잠글 방향. 기본값 landscape */
+  orientation?: GameOrientation;
+  scaleMode?: ScaleMode;
+  /** 스크린샷 기능 사용 여부 (WebGL preserveDrawingBuffer 를 켬). 기본값 false */
+  screenshots?: boolean;
+  /** 세이브 관리(IDBFS 내보내기/가져오기, 서버 백업) 사용 여부 */
+  saves?: boolean;
+  /** 플레이어 설정 패널에 노출할 항목 */
+  settings?: GameSettingDefinition[];
+  /** 모바일 또는 전체화면에서 표시할 가상 조이스틱/버튼 */
+  virtualControls?: VirtualControlsConfig;
+  /** 클립 녹화 최대 길이(초) */
+  maxClipDuration?: number;
+  /** "마지막 N초 저장" 모드에서 보관할 길이(초) */
+  replayBufferDuration?: number;
+  /** 렌더 해상도 계산에 쓰는 devicePixelRatio 상한 */
+  maxDevicePixelRatio?: number;
+  /** 게임의 프레임 상한. 적응형 해상도의 목표 fps */
+  targetFrameRate?: number;
 }
 
 export function UnityLoader({
+  gameId,
   buildUrl = "/game/GODUCK",
   buildFolder = "Build",
   buildName,
+  buildId,
+  activeBuildIds,
+  buildChannel = "stable",
   width = "100%",
   height = 600,
   className,
+  backgroundBehavior = "pause",
+  aspectRatio,
+  orientation: gameOrientation,
+  scaleMode,
+  screenshots = false,
+  saves = true,
+  virtualControls,
+  settings,
+  maxClipDuration = 60,
+  replayBufferDuration = 30,
+  maxDevicePixelRatio = 2,
+  targetFrameRate,
 }: UnityLoaderProps) {
   const t = useTranslations();
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [isLoading, setIsLoading] = useState(false);
-  const [progress, setProgress] = useState(0);
-  const [error, setError] = useState<string | null>(null);
-  const [isReady, setIsReady] = useState(false);
-  const [isFullscreen, setIsFullscreen] = useState(false);
-  const [showRotateMessage, setShowRotateMessage] = useState(false);
-  const unityInstanceRef = useRef<UnityInstance | null>(null);
+  const [showPerformance, setShowPerformance] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showSaves, setShowSaves] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
-
-  const isIOS = (): boolean => {
-    return (
-      /iPad|iPhone|iPod/.test(navigator.userAgent) ||
-      (navigator.platform === "MacIntel" && navigator.maxTouchPoints > 1)
-    );
-  };
-
-  const getDeviceType = useCallback((): "mobile" | "desktop" => {
-    // iOS (iPhone, iPad 등)
-    if (isIOS()) {
-      return "mobile";
-    }
-
-    // 안드로이드 및 기타 모바일 브라우저
-    const ua = navigator.userAgent.toLowerCase();
-    const isMobileUA = /android|webos|blackberry|iemobile|opera mini/.test(ua);
-
-    if (isMobileUA) {
-      return "mobile";
-    }
-
-    // 폴백: 화면 크기로 판단 (폭이 좁으면 모바일로 간주)
-    if (window.innerWidth <= 768) {
-      return "mobile";
-    }
-
-    return "desktop";
-  }, []);
-
-  useEffect(() => {
-    let script: HTMLScriptElement | null = null;
-
-    const loadUnity = async () => {
-      if (!canvasRef.current) return;
-
-      try {
-        setIsLoading(true);
-        setError(null);
-        setProgress(0);
-
-        let detectedBuildName = buildName;
-        if (!detectedBuildName) {
-          const urlParts = buildUrl.split("/").filter(Boolean);
-          detectedBuildName = urlParts[urlParts.length - 1] || "GODUCK";
-        }
-        let buildConfig: UnityBuildConfig | null = null;
-        try {
-          const buildJsonResponse = await fetch(
-            `${buildUrl}/${buildFolder}/Build.json`
-          );
-          if (buildJsonResponse.ok) {
-            const jsonData = await buildJsonResponse.json();
-            buildConfig = jsonData as UnityBuildConfig;
-            if (buildConfig.buildName) {
-              detectedBuildName = buildConfig.buildName;
-            }
-          }
-        } catch {}
-
-        const loaderUrl = `${buildUrl}/${buildFolder}/${detectedBuildName}.loader.js`;
-
-        script = document.createElement("script");
-        script.src = loaderUrl;
-        script.async = false;
-        script.defer = true;
-
-        script.onload = async () => {
-          try {
-            await new Promise<void>((resolve) => {
-              if (document.readyState === "complete") {
-                resolve();
-              } else {
-                window.addEventListener("load", () => resolve(), {
-                  once: true,
-                });
-              }
-            });
-
-            await new Promise<void>((resolve) => {
-              requestAnimationFrame(() => {
-                requestAnimationFrame(() => resolve());
-              });
-            });
-
-            if (!window.createUnityInstance) {
-              throw new Error(t("game.loaderNotFound"));
-            }
-            if (!canvasRef.current) {
-              throw new Error(t("game.canvasNotFound"));
-            }
-
-            if (!canvasRef.current.isConnected) {
-              throw new Error(t("game.canvasNotConnected"));
-            }
-
-            const buildPath = `${buildUrl}/${buildFolder}`;
-
-            let codeUrl: string | string[] =
-              buildConfig?.codeUrl ||
-              `${buildPath}/${detectedBuildName}.wasm.unityweb`;
-
-            if (
-              buildConfig?.wasmFiles &&
-              Array.isArray(buildConfig.wasmFiles)
-            ) {
-              codeUrl = buildConfig.wasmFiles.map((file: string) => {
-                if (file.startsWith("http") || file.startsWith("/")) {
-                  return file;
-                }
-                return `${buildPath}/${file}`;
-              });
-            } else if (buildConfig?.wasmCodeUrl) {
-              codeUrl =
-                buildConfig.wasmCodeUrl.startsWith("http") ||
-                buildConfig.wasmCodeUrl.startsWith("/")
-                  ? buildConfig.wasmCodeUrl
-                  : `${buildPath}/${buildConfig.wasmCodeUrl}`;
-            } else if (buildConfig && typeof buildConfig.codeUrl === "string") {
-              codeUrl =
-                buildConfig.codeUrl.startsWith("http") ||
-                buildConfig.codeUrl.startsWith("/")
-                  ? buildConfig.codeUrl
-                  : `${buildPath}/${buildConfig.codeUrl}`;
-            } else if (buildConfig && Array.isArray(buildConfig.codeUrl)) {
-              codeUrl = buildConfig.codeUrl.map((url: string) => {
-                if (url.startsWith("http") || url.startsWith("/")) {
-                  return url;
-                }
-                return `${buildPath}/${url}`;
-              });
-            }
-
-            const showBanner = (
-              msg: string,
-              type: "error" | "warning" | "info"
-            ) => {
-              if (type === "error") {
-                setError(msg);
-              }
-            };
-
-            const config: UnityInstanceConfig = {
-              dataUrl:
-                buildConfig?.dataUrl ||
-                `${buildPath}/${detectedBuildName}.data.unityweb`,
-              frameworkUrl:
-                buildConfig?.frameworkUrl ||
-                `${buildPath}/${detectedBuildName}.framework.js.unityweb`,
-              codeUrl,
-              streamingAssetsUrl:
-                buildConfig?.streamingAssetsUrl ||
-                `${buildUrl}/StreamingAssets`,
-              companyName: buildConfig?.companyName || "DefaultCompany",
-              productName: (buildConfig?.productName ||
-                detectedBuildName) as string,
-              productVersion: buildConfig?.productVersion || "0.0.1",
-              arguments: buildConfig?.arguments || [],
-              showBanner,
-            };
-
-            try {
-              const instance = await window.createUnityInstance(
-                canvasRef.current,
-                config,
-                (progress: number) => {
-                  const progressPercent = Math.round(progress * 100);
-                  setProgress(progressPercent);
-                }
-              );
-
-              unityInstanceRef.current = instance;
-
-              // 디바이스 타입(JS) -> Unity WebGL 로 전달
-              try {
-                const deviceType = getDeviceType(); // "mobile" | "desktop"
-                instance.SendMessage(
-                  "DeviceManager", // Unity 내 GameObject 이름
-                  "SetDeviceType", // public 메서드 이름 (string 매개변수 1개)
-                  deviceType
-                );
-              } catch (bridgeError) {
-                console.warn(
-                  "[UnityLoader] Failed to send device type to Unity:",
-                  bridgeError
-                );
-              }
-
-              setIsReady(true);
-              setIsLoading(false);
-            } catch (unityError) {
-              if (
-                unityError instanceof Error &&
-                unityError.message.includes("querySelector")
-              ) {
-                throw new Error(
-                  t("game.domError", { error: unityError.message })
-                );
-              }
-              throw unityError;
-            }
-          } catch (err) {
-            const errorMessage =
-              err instanceof Error
-                ? `${err.message}\n\n${t("game.consoleCheck")}`
-                : `${t("game.loadError")}\n\n${t("game.consoleCheck")}`;
-            setError(errorMessage);
-            setIsLoading(false);
-          }
-        };
-
-        script.onerror = () => {
-          const errorMsg = `${t("game.scriptLoadError")}\n\n${t(
-            "game.scriptLoadErrorDetails",
-            { url: loaderUrl }
-          )}\n\n${t("game.scriptLoadErrorCauses")}`;
-          setError(errorMsg);
-          setIsLoading(false);
-        };
-
-        document.body.appendChild(script);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : t("game.cannotLoad"));
-        setIsLoading(false);
-      }
-    };
-
-    loadUnity();
-
-    return () => {
-      if (script && script.parentNode) {
-        script.parentNode.removeChild(script);
-      }
-      if (unityInstanceRef.current) {
-        try {
-          unityInstanceRef.current.Quit();
-        } catch {}
+  const { toasts, toast, dismiss } = useToast();
+  const layout = useMemo(
+    () =>
+      resolveGameLayout({
+        aspectRatio,
+        orientation: gameOrientation,
+        scaleMode,
+      }),
+    [aspectRatio, gameOrientation, scaleMode]
+  );
+  const containerSize = useElementSize(containerRef);
+  const canvasSize = containerSize
+    ? getCanvasLayoutSize(containerSize, layout)
+    : null;
+  const capabilitiesRef = useRef<CapabilityReport | null>(null);
+
+  const handleCapabilities = useCallback(
+    (report: CapabilityReport) => {
+      capabilitiesRef.current = report;
+      if (report.verdict === "limited") {
+        report.issues.forEach((issue) =>
+          toast("warning", t(`game.unsupported.issues.${issue}`))
+        );
       }
-    };
-  }, [buildUrl, buildFolder, buildName, t, getDeviceType]);
-
-  const getFullscreenElement = (): Element | null => {
-    const doc = document as DocumentWithFullscreen;
-    return (
-      document.fullscreenElement ||
-      doc.webkitFullscreenElement ||
-      doc.mozFullScreenElement ||
-      doc.msFullscreenElement ||
-      null
-    );
-  };
-
-  const handleRetry = () => {
-    setError(null);
-    setProgress(0);
-    setIsReady(false);
-    window.location.reload();
-  };
-
-  const requestFullscreen = async (element: HTMLElement): Promise<boolean> => {
-    const el = element as HTMLElementWithFullscreen;
+    },
+    [t, toast]
+  );
 
+  // 디바이스 타입(JS) -> Unity WebGL 로 전달
+  const handleReady = useCallback((instance: UnityInstance) => {
     try {
-      if (element.requestFullscreen) {
-        await element.requestFullscreen();
-        return true;
-      } else if (el.webkitRequestFullscreen) {
-        await el.webkitRequestFullscreen();
-        return true;
-      } else if (el.mozRequestFullScreen) {
-        await el.mozRequestFullScreen();
-        return true;
-      } else if (el.msRequestFullscreen) {
-        await el.msRequestFullscreen();
-        return true;
+      sendUnityMessage(
+        instance,
+        "DeviceManager",
+        "SetDeviceType",
+        getDeviceType()
+      );
+      if (capabilitiesRef.current) {
+        sendUnityMessage(
+          instance,
+          "DeviceManager",
+          "SetCapabilities",
+          capabilitiesRef.current.capabilities
+        );
       }
-    } catch {
-      // 전체화면 API 호출 실패
+    } catch (bridgeError) {
+      console.warn(
+        "[UnityLoader] Failed to send device type to Unity:",
+        bridgeError
+      );
     }
+  }, []);
 
-    // 전체화면 API를 지원하지 않는 경우 false 반환
-    return false;
+  const {
+    status,
+    instance,
+    progress,
+    error,
+    build,
+    configIssues,
+    cacheStatus,
+    download,
+    retryDelay,
+    capabilities,
+    canvasKey,
+    reload,
+    continueAnyway,
+  } = useUnityInstance({
+    canvasRef,
+    buildUrl,
+    buildFolder,
+    buildName,
+    gameId,
+    buildId,
+    activeBuildIds,
+    onReady: handleReady,
+    onBanner: toast,
+    onCapabilities: handleCapabilities,
+    preserveDrawingBuffer: screenshots,
+    onBeforeQuit: saves ? flushUnitySaves : undefined,
+  });
+  const isLoading = isUnityLoading(status);
+  const isReady = status === "running";
+  const isRestarting = status === "quitting" || retryDelay > 0;
+  const { suspended } = useBackgroundPause(
+    containerRef,
+    instance,
+    backgroundBehavior
+  );
+  const gamepads = useGamepads(instance, isReady && !suspended);
+  const gameSettings = useGameSettings(gameId ?? buildUrl, settings, instance);
+  useUnityLocale(instance, gameSettings.values.language);
+  const closeSettings = useCallback(() => setShowSettings(false), []);
+  const saveManager = useSaveManager(gameId ?? buildUrl, instance, reload);
+  const closeSaves = useCallback(() => setShowSaves(false), []);
+  const hasSettings = !!settings && settings.length > 0;
+  const { resolution, stats } = useAdaptiveResolution(canvasRef, {
+    canvasKey,
+    enabled: isReady && !suspended,
+    maxDevicePixelRatio,
+    targetFrameRate,
+  });
+
+  const {
+    isFullscreen,
+    orientationMismatch,
+    toggle: toggleFullscreen,
+  } = useFullscreen(containerRef, { orientation: layout.orientation });
+  const showRotateMessage = isFullscreen && orientationMismatch;
+  const deviceType = useSyncExternalStore(
+    subscribeResize,
+    getDeviceType,
+    () => "desktop"
+  );
+  const showVirtualControls =
+    !!virtualControls &&
+    (isFullscreen || deviceType === "mobile") &&
+    !showRotateMessage;
+
+  const {
+    shots,
+    capture,
+    remove: removeScreenshot,
+    download: downloadScreenshot,
+    share: shareScreenshot,
+  } = useScreenshots(canvasRef, gameId ?? buildUrl);
+
+  const recorder = useClipRecorder(canvasRef, {
+    canvasKey,
+    fileName: gameId ?? "unity",
+    maxDuration: maxClipDuration,
+    bufferDuration: replayBufferDuration,
+    onSaved: () => toast("info", t("game.recording.saved")),
+    onError: (recordError) => {
+      console.warn("[UnityLoader] Failed to start recording:", recordError);
+      toast("warning", t("game.recording.failed"));
+    },
+  });
+
+  const handleOpenSaves = () => {
+    setShowSaves(true);
+    if (!saveManager.scope) return;
+    saveManager.refresh().catch((listError) => {
+      console.warn("[UnityLoader] Failed to list saves:", listError);
+    });
   };
 
-  const exitFullscreen = async (): Promise<void> => {
-    const doc = document as DocumentWithFullscreen;
-
-    if (document.exitFullscreen) {
-      await document.exitFullscreen();
-    } else if (doc.webkitExitFullscreen) {
-      await doc.webkitExitFullscreen();
-    } else if (doc.mozCancelFullScreen) {
-      await doc.mozCancelFullScreen();
-    } else if (doc.msExitFullscreen) {
-      await doc.msExitFullscreen();
+  const handleScreenshot = async () => {
+    try {
+      await capture();
+      toast("info", t("game.screenshot.saved"));
+    } catch (captureError) {
+      console.warn("[UnityLoader] Failed to capture screenshot:", captureError);
+      toast("warning", t("game.screenshot.failed"));
     }
   };
 
-  const checkOrientation = useCallback((): void => {
-    const screenWithOrientation = screen as ScreenWithOrientation;
-    const orientation = screenWithOrientation.orientation;
-
-    let isLandscape = false;
-
-    if (orientation) {
-      isLandscape =
-        orientation.angle === 90 ||
-        orientation.angle === 270 ||
-        orientation.type?.includes("landscape");
-    } else {
-      // Screen Orientation API가 없는 경우 window 크기로 판단
-      isLandscape = window.innerWidth > window.innerHeight;
-    }
-
-    if (!isLandscape && isFullscreen) {
-      // iOS에서는 세로로 돌아오면 자동으로 전체화면 해제
-      if (isIOS()) {
-        setIsFullscreen(false);
-        setShowRotateMessage(false);
-      } else {
-        setShowRotateMessage(true);
-      }
-    } else {
-      setShowRotateMessage(false);
-    }
-  }, [isFullscreen]);
-
   const handleFullscreen = async () => {
-    if (!containerRef.current) return;
-
-    try {
-      const systemFullscreen = !!getFullscreenElement();
-      const ios = isIOS();
-
-      // 전체화면 진입
-      if (!isFullscreen) {
-        // iOS: Fullscreen API 대신 CSS 기반 "전체화면 모드"만 사용
-        if (ios) {
-          setIsFullscreen(true);
-          checkOrientation();
-          setShowRotateMessage(true);
-          setTimeout(() => setShowRotateMessage(false), 4000);
-        } else {
-          const fullscreenSupported = await requestFullscreen(
-            containerRef.current
-          );
-
-          if (!fullscreenSupported) {
-            setIsFullscreen(true);
-          }
-
-          // 전체화면이 완전히 활성화된 후 가로 방향으로 잠금 시도
-          setTimeout(async () => {
-            const screenWithOrientation = screen as ScreenWithOrientation;
-            const orientation = screenWithOrientation.orientation;
-
-            if (orientation && orientation.lock) {
-              try {
-                await orientation.lock("landscape");
-                setShowRotateMessage(false);
-              } catch {
-                setShowRotateMessage(true);
-                setTimeout(() => setShowRotateMessage(false), 4000);
-              }
-            } else {
-              checkOrientation();
-            }
-          }, 300);
-        }
-      } else {
-        // 전체화면 종료
-        const screenWithOrientation = screen as ScreenWithOrientation;
-        const orientation = screenWithOrientation.orientation;
-
-        if (!ios && orientation && orientation.unlock) {
-          try {
-            orientation.unlock();
-          } catch {}
-        }
-
-        setShowRotateMessage(false);
-
-        // iOS: CSS 기반 전체화면만 사용하므로 상태만 원복
-        if (ios) {
-          setIsFullscreen(false);
-          checkOrientation();
-        } else {
-          if (systemFullscreen) {
-            await exitFullscreen();
-          }
-          setIsFullscreen(false);
-          setTimeout(() => {
-            checkOrientation();
-            if (canvasRef.current) {
-              canvasRef.current.focus();
-            }
-          }, 200);
-        }
-      }
-    } catch {
-      // 전체화면 전환 실패 시에도 전체화면 모드로 전환
-      setIsFullscreen(true);
-      checkOrientation();
-    }
+    const wasFullscreen = isFullscreen;
+    await toggleFullscreen();
+    // 전체화면 종료 후 키보드 입력이 게임으로 가도록 포커스 복원
+    if (wasFullscreen) canvasRef.current?.focus();
   };
 
-  useEffect(() => {
-    if (isFullscreen) {
-      checkOrientation();
-
-      const screenWithOrientation = screen as ScreenWithOrientation;
-      const orientation = screenWithOrientation.orientation;
-
-      const handleOrientationChange = () => {
-        checkOrientation();
-      };
-
-      const handleResize = () => {
-        checkOrientation();
-      };
-
-      if (orientation) {
-        orientation.addEventListener("change", handleOrientationChange);
-      }
-      window.addEventListener("resize", handleResize);
-      window.addEventListener("orientationchange", handleResize);
-
-      return () => {
-        if (orientation) {
-          orientation.removeEventListener("change", handleOrientationChange);
-        }
-        window.removeEventListener("resize", handleResize);
-        window.removeEventListener("orientationchange", handleResize);
-      };
-    } else {
-      setShowRotateMessage(false);
-    }
-  }, [isFullscreen, checkOrientation]);
-
-  useEffect(() => {
-    const handleFullscreenChange = () => {
-      setIsFullscreen(!!getFullscreenElement());
-    };
-
-    document.addEventListener("fullscreenchange", handleFullscreenChange);
-    document.addEventListener("webkitfullscreenchange", handleFullscreenChange);
-    document.addEventListener("mozfullscreenchange", handleFullscreenChange);
-    document.addEventListener("MSFullscreenChange", handleFullscreenChange);
-
-    return () => {
-      document.removeEventListener("fullscreenchange", handleFullscreenChange);
-      document.removeEventListener(
-        "webkitfullscreenchange",
-        handleFullscreenChange
-      );
-      document.removeEventListener(
-        "mozfullscreenchange",
-        handleFullscreenChange
-      );
-      document.removeEventListener(
-        "MSFullscreenChange",
-        handleFullscreenChange
-      );
-    };
-  }, []);
+  // Build.json 에 버전이 없으면 채널만 표시하고, stable 이면 배지를 숨김
+  const buildLabel = build
+    ? [
+        build.version && t("game.build.version", { version: build.version }),
+        buildChannel !== "stable" && t(`game.build.channels.${buildChannel}`),
+      ]
+        .filter(Boolean)
+        .join(" · ")
+    : "";
 
   return (
     <Card
@@ -598,25 +312,72 @@ export function UnityLoader({
       <CardHeader className={isFullscreen ? "hidden" : ""}>
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 sm:gap-4">
           <div className="flex-1">
-            <CardTitle>{t("game.title")}</CardTitle>
+            <CardTitle className="flex items-center gap-2">
+              {t("game.title")}
+              {build && buildLabel && (
+                <span
+                  className={`inline-flex items-center rounded-full border px-2 py-0.5 text-xs font-normal ${
+                    buildChannel === "stable"
+                      ? "text-muted-foreground"
+                      : "border-amber-600/30 text-amber-700 dark:text-amber-400"
+                  }`}
+                  title={build.buildPath}
+                >
+                  {buildLabel}
+                </span>
+              )}
+            </CardTitle>
             <CardDescription>
-              {isLoading && t("game.loading", { progress })}
+              {isLoading && t("game.loading.progress", { progress })}
+              {isRestarting && t("game.restarting")}
               {error && t("game.error")}
-              {isReady && t("game.ready")}
+              {status === "unsupported" && t("game.unsupported.title")}
+              {isReady && (suspended ? t("game.paused") : t("game.ready"))}
+              {isReady && gamepads.length > 0 && (
+                <span
+                  className="ml-2 inline-flex items-center gap-1 rounded-full border border-violet-600/30 px-2 py-0.5 text-xs text-violet-700 dark:text-violet-400"
+                  title={gamepads.map((gamepad) => gamepad.id).join("\n")}
+                >
+                  <svg
+                    className="w-3 h-3"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M6 11h4M8 9v4m7-1h.01M18 10h.01M7 5h10a4 4 0 014 4v6a3 3 0 01-5.4 1.8L14 15h-4l-1.6 1.8A3 3 0 013 15V9a4 4 0 014-4z"
+                    />
+                  </svg>
+                  {t("game.gamepad.connected", { count: gamepads.length })}
+                </span>
+              )}
+              {cacheStatus !== "unavailable" && !error && (
+                <span
+                  className={`ml-2 inline-flex items-center rounded-full border px-2 py-0.5 text-xs ${
+                    cacheStatus === "cached"
+                      ? "border-green-600/30 text-green-700 dark:text-green-400"
+                      : "border-blue-600/30 text-blue-700 dark:text-blue-400"
+                  }`}
+                >
+                  {t(`game.cache.${cacheStatus}`)}
+                </span>
+              )}
             </CardDescription>
           </div>
           {!isLoading && (
-            <Button
-              onClick={handleFullscreen}
-              variant="outline"
-              size="sm"
-              className="self-start sm:self-auto shrink-0"
-              disabled={!!error}
-            >
-              {isFullscreen ? (
-                <>
+            <div className="flex gap-2 self-start sm:self-auto shrink-0">
+              {isReady && screenshots && (
+                <Button
+                  onClick={handleScreenshot}
+                  variant="outline"
+                  size="sm"
+                  title={t("game.screenshot.take")}
+                >
                   <svg
-                    className="w-4 h-4 mr-2"
+                    className="w-4 h-4 sm:mr-2"
                     fill="none"
                     stroke="currentColor"
                     viewBox="0 0 24 24"
@@ -625,16 +386,42 @@ export function UnityLoader({
                       strokeLinecap="round"
                       strokeLinejoin="round"
                       strokeWidth={2}
-                      d="M6 18L18 6M6 6l12 12"
+                      d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9zM15 13a3 3 0 11-6 0 3 3 0 016 0z"
                     />
                   </svg>
                   <span className="hidden sm:inline">
-                    {t("game.exitFullscreen")}
+                    {t("game.screenshot.take")}
                   </span>
-                  <span className="sm:hidden">종료</span>
-                </>
-              ) : (
-                <>
+                </Button>
+              )}
+              {isReady && (
+                <Button
+                  onClick={() => setShowPerformance((value) => !value)}
+                  variant={showPerformance ? "default" : "outline"}
+                  size="sm"
+                  aria-pressed={showPerformance}
+                  title={t("game.performance.toggle")}
+                >
+                  <svg
+                    className="w-4 h-4 sm:mr-2"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z"
+                    />
+                  </svg>
+                  <span className="hidden sm:inline">
+                    {t("game.performance.toggle")}
+                  </span>
+                </Button>
+              )}
+              {isReady && (
+                <Button onClick={() => reload()} variant="outline" size="sm">
                   <svg
                     className="w-4 h-4 mr-2"
                     fill="none"
@@ -645,27 +432,133 @@ export function UnityLoader({
                       strokeLinecap="round"
                       strokeLinejoin="round"
                       strokeWidth={2}
-                      d="M4 8V4m0 0h4M4 4l5 5m11-1V4m0 0h-4m4 0l-5 5M4 16v4m0 0h4m-4 0l5-5m11 5l-5-5m5 5v-4m0 4h-4"
+                      d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+                    />
+                  </svg>
+                  <span className="hidden sm:inline">{t("game.restart")}</span>
+                  <span className="sm:hidden">
+                    {t("game.shortLabels.restart")}
+                  </span>
+                </Button>
+              )}
+              {isReady && hasSettings && (
+                <Button
+                  onClick={() => setShowSettings(true)}
+                  variant="outline"
+                  size="sm"
+                  title={t("game.settings.title")}
+                >
+                  <svg
+                    className="w-4 h-4 sm:mr-2"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065zM15 12a3 3 0 11-6 0 3 3 0 016 0z"
+                    />
+                  </svg>
+                  <span className="hidden sm:inline">
+                    {t("game.settings.title")}
+                  </span>
+                </Button>
+              )}
+              {isReady && saves && (
+                <Button
+                  onClick={handleOpenSaves}
+                  variant="outline"
+                  size="sm"
+                  title={t("game.saves.title")}
+                >
+                  <svg
+                    className="w-4 h-4 sm:mr-2"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M8 7H5a2 2 0 00-2 2v9a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-3m-1 4l-3 3m0 0l-3-3m3 3V4"
                     />
                   </svg>
                   <span className="hidden sm:inline">
-                    {t("game.fullscreen")}
+                    {t("game.saves.title")}
                   </span>
-                  <span className="sm:hidden">전체</span>
-                </>
+                </Button>
               )}
-            </Button>
+              {isReady && <RecordingControls recorder={recorder} />}
+              <Button
+                onClick={handleFullscreen}
+                variant="outline"
+                size="sm"
+                disabled={!!error || isRestarting}
+              >
+                {isFullscreen ? (
+                  <>
+                    <svg
+                      className="w-4 h-4 mr-2"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M6 18L18 6M6 6l12 12"
+                      />
+                    </svg>
+                    <span className="hidden sm:inline">
+                      {t("game.exitFullscreen")}
+                    </span>
+                    <span className="sm:hidden">
+                      {t("game.shortLabels.exitFullscreen")}
+                    </span>
+                  </>
+                ) : (
+                  <>
+                    <svg
+                      className="w-4 h-4 mr-2"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M4 8V4m0 0h4M4 4l5 5m11-1V4m0 0h-4m4 0l-5 5M4 16v4m0 0h4m-4 0l5-5m11 5l-5-5m5 5v-4m0 4h-4"
+                      />
+                    </svg>
+                    <span className="hidden sm:inline">
+                      {t("game.fullscreen")}
+                    </span>
+                    <span className="sm:hidden">
+                      {t("game.shortLabels.fullscreen")}
+                    </span>
+                  </>
+                )}
+              </Button>
+            </div>
           )}
         </div>
       </CardHeader>
       <CardContent className={isFullscreen ? "p-0" : ""}>
+        {!isFullscreen && (
+          <BuildConfigWarnings issues={configIssues} className="mb-4" />
+        )}
         <div
           ref={containerRef}
           id="unity-container"
           className={`bg-black ${
             isFullscreen
-              ? "fixed inset-0 z-50 flex items-center justify-center"
-              : "relative rounded-lg overflow-hidden w-full " +
+              ? "fixed inset-0 z-50 flex items-center justify-center overflow-hidden"
+              : "relative rounded-lg overflow-hidden w-full flex items-center justify-center " +
                 (height ? "" : "h-[400px] sm:h-[500px] lg:h-[600px]")
           }`}
           style={
@@ -680,62 +573,130 @@ export function UnityLoader({
                 }
           }
         >
-          {isLoading && (
+          {(isLoading || isRestarting) && (
             <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/80 text-white z-10 p-4">
               <div className="mb-3 sm:mb-4">
                 <div className="w-12 h-12 sm:w-16 sm:h-16 border-4 border-white/20 border-t-white rounded-full animate-spin" />
               </div>
-              <p className="text-xs sm:text-sm">
-                {t("game.loading", { progress })}
-              </p>
+              {isRestarting ? (
+                <p className="text-xs sm:text-sm">
+                  {retryDelay > 0
+                    ? t("game.retryingIn", {
+                        seconds: Math.ceil(retryDelay / 1000),
+                      })
+                    : t("game.restarting")}
+                </p>
+              ) : (
+                <LoadingProgress
+                  status={status}
+                  progress={progress}
+                  download={download}
+                />
+              )}
             </div>
           )}
+          {status === "unsupported" && capabilities && (
+            <UnsupportedDevice
+              report={capabilities}
+              onContinue={continueAnyway}
+            />
+          )}
           {error && (
-            <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/80 text-white z-10 p-4">
+            <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/80 text-white z-10 p-4 overflow-y-auto">
               <p className="text-red-400 mb-3 sm:mb-4 text-center text-xs sm:text-sm px-2">
                 {error}
               </p>
               <Button
-                onClick={handleRetry}
+                onClick={() => reload()}
                 variant="outline"
                 className="bg-white text-black hover:bg-gray-200 text-xs sm:text-sm"
               >
                 {t("common.retry")}
               </Button>
               <p className="text-[10px] sm:text-xs mt-3 sm:mt-4 text-gray-400 text-center px-2">
-                {t("game.fileCheck")}
-                <br />
-                {t("game.requiredFiles")}
+                {t("game.fileCheck", { path: `public${buildUrl}` })}
               </p>
+              {build && <BuildDiagnostics build={build} className="mt-3" />}
             </div>
           )}
           {isFullscreen && !isLoading && !error && (
-            <Button
-              onClick={handleFullscreen}
-              variant="outline"
-              size="sm"
-              className="absolute top-4 right-4 z-30 bg-white/10 hover:bg-white/20 text-white border-white/30"
-            >
-              <svg
-                className="w-4 h-4 mr-2"
-                fill="none"
-                stroke="currentColor"
-                viewBox="0 0 24 24"
+            <div className="absolute top-4 right-4 z-30 flex gap-2">
+              {isReady && screenshots && (
+                <Button
+                  onClick={handleScreenshot}
+                  variant="outline"
+                  size="sm"
+                  aria-label={t("game.screenshot.take")}
+                  className="bg-white/10 hover:bg-white/20 text-white border-white/30"
+                >
+                  <svg
+                    className="w-4 h-4"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9zM15 13a3 3 0 11-6 0 3 3 0 016 0z"
+                    />
+                  </svg>
+                </Button>
+              )}
+              {isReady && hasSettings && (
+                <Button
+                  onClick={() => setShowSettings(true)}
+                  variant="outline"
+                  size="sm"
+                  aria-label={t("game.settings.title")}
+                  className="bg-white/10 hover:bg-white/20 text-white border-white/30"
+                >
+                  <svg
+                    className="w-4 h-4"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065zM15 12a3 3 0 11-6 0 3 3 0 016 0z"
+                    />
+                  </svg>
+                </Button>
+              )}
+              {isReady && <RecordingControls recorder={recorder} overlay />}
+              <Button
+                onClick={handleFullscreen}
+                variant="outline"
+                size="sm"
+                className="bg-white/10 hover:bg-white/20 text-white border-white/30"
               >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M6 18L18 6M6 6l12 12"
-                />
-              </svg>
-              <span className="hidden sm:inline">
-                {t("game.exitFullscreen")}
-              </span>
-              <span className="sm:hidden">종료</span>
-            </Button>
+                <svg
+                  className="w-4 h-4 mr-2"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M6 18L18 6M6 6l12 12"
+                  />
+                </svg>
+                <span className="hidden sm:inline">
+                  {t("game.exitFullscreen")}
+                </span>
+                <span className="sm:hidden">
+                  {t("game.shortLabels.exitFullscreen")}
+                </span>
+              </Button>
+            </div>
           )}
-          {showRotateMessage && isFullscreen && (
+          {showRotateMessage && (
             <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/90 text-white z-20 p-4 animate-pulse pointer-events-none">
               <div className="mb-4">
                 <svg
@@ -753,31 +714,71 @@ export function UnityLoader({
                 </svg>
               </div>
               <p className="text-base sm:text-lg font-semibold text-center mb-2">
-                {isIOS()
-                  ? t("game.rotateToLandscapeIOS")
-                  : t("game.rotateToLandscape")}
+                {layout.orientation === "portrait"
+                  ? isIOS()
+                    ? t("game.rotateToPortraitIOS")
+                    : t("game.rotateToPortrait")
+                  : isIOS()
+                    ? t("game.rotateToLandscapeIOS")
+                    : t("game.rotateToLandscape")}
               </p>
               <p className="text-xs sm:text-sm text-gray-300 text-center">
-                {t("game.rotateToLandscape")}
+                {layout.orientation === "portrait"
+                  ? t("game.rotateToPortrait")
+                  : t("game.rotateToLandscape")}
               </p>
             </div>
           )}
+          {isReady && instance && showVirtualControls && virtualControls && (
+            <VirtualControls config={virtualControls} instance={instance} />
+          )}
+          {hasSettings && (
+            <SettingsDrawer
+              open={showSettings && isReady}
+              definitions={settings}
+              values={gameSettings.values}
+              onChange={gameSettings.update}
+              onReset={gameSettings.reset}
+              onClose={closeSettings}
+            />
+          )}
+          {saves && (
+            <SaveManager
+              open={showSaves && isReady}
+              saves={saveManager}
+              onNotify={toast}
+              onClose={closeSaves}
+            />
+          )}
+          {isReady && showPerformance && (
+            <PerformanceOverlay stats={stats} resolution={resolution} />
+          )}
+          <Toaster
+            toasts={toasts}
+            onDismiss={dismiss}
+            labels={{
+              types: {
+                info: t("game.banner.info"),
+                warning: t("game.banner.warning"),
+                error: t("game.banner.error"),
+              },
+              dismiss: t("common.dismiss"),
+              showDetails: t("common.showDetails"),
+              hideDetails: t("common.hideDetails"),
+            }}
+          />
           <canvas
+            key={canvasKey}
             id="unity-canvas"
             ref={canvasRef}
-            width={1280}
-            height={720}
             tabIndex={isFullscreen ? 0 : -1}
             className="outline-none"
             style={{
               display: isReady && !error ? "block" : "none",
-              // 16:9 비율 유지
-              aspectRatio: "16 / 9",
-              maxWidth: "100%",
-              maxHeight: "100%",
-              width: isFullscreen ? "100%" : "100%",
-              // 전체화면에서는 높이를 자동으로 두고, 컨테이너(뷰포트)에 맞춰 16:9로 스케일
-              height: isFullscreen ? "auto" : "100%",
+              // 게임 비율과 배치 방식에 맞춘 크기 (fill 은 컨테이너 밖으로 넘쳐 잘림)
+              flexShrink: 0,
+              width: canvasSize ? canvasSize.width : "100%",
+              height: canvasSize ? canvasSize.height : "100%",
             }}
             onMouseDown={(e) => {
               if (isFullscreen) {
@@ -802,6 +803,15 @@ export function UnityLoader({
             <div id="unity-build-title"></div>
           </div>
         </div>
+        {!isFullscreen && (
+          <ScreenshotGallery
+            shots={shots}
+            onShare={(shot) => shareScreenshot(shot, t("game.title"))}
+            onDownload={downloadScreenshot}
+            onDelete={removeScreenshot}
+            className="mt-4"
+          />
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,56 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import type { CapabilityReport } from "@/lib/unity/capabilities";
+
+interface UnsupportedDeviceProps {
+  report: CapabilityReport;
+  onContinue: () => void;
+}
+
+export function UnsupportedDevice({
+  report,
+  onContinue,
+}: UnsupportedDeviceProps) {
+  const t = useTranslations("game.unsupported");
+
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/90 text-white z-10 p-4 overflow-y-auto text-center">
+      <svg
+        className="w-12 h-12 sm:w-16 sm:h-16 mb-3 text-yellow-300"
+        fill="none"
+        stroke="currentColor"
+        viewBox="0 0 24 24"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M12 9v2m0 4h.01M5.07 19h13.86c1.54 0 2.5-1.67 1.73-3L13.73 4c-.77-1.33-2.69-1.33-3.46 0L3.34 16c-.77 1.33.19 3 1.73 3z"
+        />
+      </svg>
+      <p className="text-base sm:text-lg font-semibold mb-2">{t("title")}</p>
+      <ul className="text-xs sm:text-sm text-gray-300 mb-4 space-y-1">
+        {report.issues.map((issue) => (
+          <li key={issue}>{t(`issues.${issue}`)}</li>
+        ))}
+      </ul>
+      <p className="text-xs sm:text-sm font-medium mb-1">
+        {t("suggestionsTitle")}
+      </p>
+      <ul className="text-[10px] sm:text-xs text-gray-400 mb-4 space-y-1">
+        <li>{t("suggestions.updateBrowser")}</li>
+        <li>{t("suggestions.hardwareAcceleration")}</li>
+        <li>{t("suggestions.otherDevice")}</li>
+      </ul>
+      <Button
+        onClick={onContinue}
+        variant="outline"
+        className="bg-white text-black hover:bg-gray-200 text-xs sm:text-sm"
+      >
+        {t("continueAnyway")}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { trySendDynamicUnityMessage } from "@/lib/unity/bridge";
+import type { UnityInstance } from "@/lib/unity/types";
+import {
+  dispatchVirtualKey,
+  type ButtonBinding,
+  type JoystickBinding,
+  type VirtualControlsConfig,
+} from "@/lib/virtual-controls";
+import { cn } from "@/lib/utils";
+
+const JOYSTICK_RADIUS = 56;
+// keys 바인딩에서 방향키를 누른 것으로 보는 기울기
+const KEY_THRESHOLD = 0.5;
+
+type Direction = "up" | "down" | "left" | "right";
+
+function getPressedDirections(x: number, y: number) {
+  const pressed = new Set<Direction>();
+  if (y > KEY_THRESHOLD) pressed.add("up");
+  if (y < -KEY_THRESHOLD) pressed.add("down");
+  if (x < -KEY_THRESHOLD) pressed.add("left");
+  if (x > KEY_THRESHOLD) pressed.add("right");
+  return pressed;
+}
+
+function VirtualJoystick({
+  binding,
+  instance,
+}: {
+  binding: JoystickBinding;
+  instance: UnityInstance;
+}) {
+  const baseRef = useRef<HTMLDivElement>(null);
+  const pointerRef = useRef<number | null>(null);
+  const pressedRef = useRef(new Set<Direction>());
+  const [knob, setKnob] = useState({ x: 0, y: 0 });
+
+  const emit = useCallback(
+    (x: number, y: number) => {
+      if (binding.type === "message") {
+        trySendDynamicUnityMessage(instance, binding.target, binding.method, {
+          x,
+          y,
+        });
+        return;
+      }
+      const next = getPressedDirections(x, y);
+      const previous = pressedRef.current;
+      previous.forEach((direction) => {
+        if (!next.has(direction))
+          dispatchVirtualKey(binding[direction], "keyup");
+      });
+      next.forEach((direction) => {
+        if (!previous.has(direction)) {
+          dispatchVirtualKey(binding[direction], "keydown");
+        }
+      });
+      previous.clear();
+      next.forEach((direction) => previous.add(direction));
+    },
+    [binding, instance]
+  );
+
+  const update = (event: React.PointerEvent<HTMLDivElement>) => {
+    const base = baseRef.current;
+    if (!base) return;
+    const rect = base.getBoundingClientRect();
+    let dx = event.clientX - (rect.left + rect.width / 2);
+    let dy = event.clientY - (rect.top + rect.height / 2);
+    const distance = Math.hypot(dx, dy);
+    if (distance > JOYSTICK_RADIUS) {
+      dx = (dx / distance) * JOYSTICK_RADIUS;
+      dy = (dy / distance) * JOYSTICK_RADIUS;
+    }
+    setKnob({ x: dx, y: dy });
+    // 화면 좌표는 아래가 +y 이므로 Unity 기준(위가 +y)으로 뒤집음
+    const x = Math.round((dx / JOYSTICK_RADIUS) * 100) / 100;
+    const y = Math.round((-dy / JOYSTICK_RADIUS) * 100) / 100;
+    emit(x, y);
+  };
+
+  const release = () => {
+    pointerRef.current = null;
+    setKnob({ x: 0, y: 0 });
+    emit(0, 0);
+  };
+
+  // 언마운트(전체화면 종료 등) 시 눌린 키가 남지 않도록 정리
+  useEffect(() => {
+    const pressed = pressedRef.current;
+    return () => {
+      if (binding.type === "keys") {
+        pressed.forEach((direction) =>
+          dispatchVirtualKey(binding[direction], "keyup")
+        );
+      }
+    };
+  }, [binding]);
+
+  return (
+    <div
+      ref={baseRef}
+      className="pointer-events-auto relative rounded-full border-2 border-white/30 bg-white/10 touch-none"
+      style={{ width: JOYSTICK_RADIUS * 2, height: JOYSTICK_RADIUS * 2 }}
+      onPointerDown={(event) => {
+        if (pointerRef.current !== null) return;
+        pointerRef.current = event.pointerId;
+        event.currentTarget.setPointerCapture(event.pointerId);
+        update(event);
+      }}
+      onPointerMove={(event) => {
+        if (event.pointerId === pointerRef.current) update(event);
+      }}
+      onPointerUp={(event) => {
+        if (event.pointerId === pointerRef.current) release();
+      }}
+      onPointerCancel={(event) => {
+        if (event.pointerId === pointerRef.current) release();
+      }}
+    >
+      <div
+        className="absolute left-1/2 top-1/2 size-12 rounded-full bg-white/40"
+        style={{
+          transform: `translate(calc(-50% + ${knob.x}px), calc(-50% + ${knob.y}px))`,
+        }}
+      />
+    </div>
+  );
+}
+
+function VirtualButton({
+  label,
+  binding,
+  instance,
+}: {
+  label: string;
+  binding: ButtonBinding;
+  instance: UnityInstance;
+}) {
+  const [pressed, setPressed] = useState(false);
+  const releaseRef = useRef<(() => void) | null>(null);
+
+  const emit = (down: boolean) => {
+    setPressed(down);
+    if (binding.type === "message") {
+      trySendDynamicUnityMessage(
+        instance,
+        binding.target,
+        binding.method,
+        down
+      );
+    } else {
+      dispatchVirtualKey(binding.code, down ? "keydown" : "keyup");
+    }
+    releaseRef.current = down
+      ? () =>
+          binding.type === "message"
+            ? trySendDynamicUnityMessage(
+                instance,
+                binding.target,
+                binding.method,
+                false
+              )
+            : dispatchVirtualKey(binding.code, "keyup")
+      : null;
+  };
+
+  // 누른 채로 언마운트되면 떼는 입력을 보냄
+  useEffect(() => () => releaseRef.current?.(), []);
+
+  return (
+    <button
+      type="button"
+      className={cn(
+        "pointer-events-auto size-16 rounded-full border-2 border-white/30 text-lg font-bold text-white select-none touch-none",
+        pressed ? "bg-white/40" : "bg-white/10"
+      )}
+      onPointerDown={(event) => {
+        event.currentTarget.setPointerCapture(event.pointerId);
+        emit(true);
+      }}
+      onPointerUp={() => pressed && emit(false)}
+      onPointerCancel={() => pressed && emit(false)}
+      onContextMenu={(event) => event.preventDefault()}
+    >
+      {label}
+    </button>
+  );
+}
+
+interface VirtualControlsProps {
+  config: VirtualControlsConfig;
+  instance: UnityInstance;
+}
+
+export function VirtualControls({ config, instance }: VirtualControlsProps) {
+  const joystickSide = config.joystick?.side ?? "left";
+
+  return (
+    <div
+      className="pointer-events-none absolute inset-0 z-20 flex items-end justify-between"
+      style={{
+        paddingTop: "max(1rem, env(safe-area-inset-top))",
+        paddingRight: "max(1.5rem, env(safe-area-inset-right))",
+        paddingBottom: "max(1.5rem, env(safe-area-inset-bottom))",
+        paddingLeft: "max(1.5rem, env(safe-area-inset-left))",
+        flexDirection: joystickSide === "left" ? "row" : "row-reverse",
+      }}
+    >
+      <div>
+        {config.joystick && (
+          <VirtualJoystick
+            binding={config.joystick.binding}
+            instance={instance}
+          />
+        )}
+      </div>
+      {config.buttons && config.buttons.length > 0 && (
+        <div className="flex max-w-[9rem] flex-wrap-reverse justify-end gap-3">
+          {config.buttons.map((button) => (
+            <VirtualButton
+              key={button.id}
+              label={button.label}
+              binding={button.binding}
+              instance={instance}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+"use client";
+
+import { useEffect, useMemo, useState, type RefObject } from "react";
+
+// 렌더 해상도 배율 단계. 1이면 컨테이너 크기 × DPR 그대로 렌더링
+const QUALITY_LEVELS = [1, 0.85, 0.7, 0.55, 0.4];
+const SAMPLE_WINDOW_MS = 1000;
+// 탭 전환 등으로 생긴 긴 공백은 통계에서 제외
+const MAX_FRAME_GAP_MS = 250;
+// 목표 fps 대비 이 비율 아래가 연속되면 품질을 낮추고, 위가 오래 유지되면 올림
+const DOWNGRADE_RATIO = 0.75;
+const UPGRADE_RATIO = 0.95;
+const DOWNGRADE_WINDOWS = 2;
+const UPGRADE_WINDOWS = 5;
+
+export interface FrameStats {
+  fps: number;
+  /** 평균 프레임 시간(ms) */
+  frameTime: number;
+  /** performance.memory 값. Chromium 계열에서만 제공 */
+  heapUsed?: number;
+  heapLimit?: number;
+}
+
+export interface RenderResolution {
+  width: number;
+  height: number;
+  devicePixelRatio: number;
+  scale: number;
+}
+
+interface AdaptiveResolutionOptions {
+  /** 캔버스가 다시 마운트될 때 바뀌는 키 (useUnityInstance 의 canvasKey) */
+  canvasKey: number;
+  /** 프레임 측정과 품질 조절 여부 (실행 중이고 보이는 동안만 켜기) */
+  enabled: boolean;
+  /** 고해상도 화면에서 과도한 렌더링을 막기 위한 DPR 상한 */
+  maxDevicePixelRatio?: number;
+  /** 품질 조절 기준 fps. 게임의 프레임 상한(Application.targetFrameRate)과 맞춤 */
+  targetFrameRate?: number;
+}
+
+interface PerformanceWithMemory extends Performance {
+  memory?: { usedJSHeapSize: number; jsHeapSizeLimit: number };
+}
+
+function getDevicePixelRatio() {
+  return typeof window === "undefined" ? 1 : window.devicePixelRatio || 1;
+}
+
+export function useAdaptiveResolution(
+  canvasRef: RefObject<HTMLCanvasElement | null>,
+  {
+    canvasKey,
+    enabled,
+    maxDevicePixelRatio = 2,
+    targetFrameRate = 60,
+  }: AdaptiveResolutionOptions
+) {
+  const [size, setSize] = useState<{ width: number; height: number } | null>(
+    null
+  );
+  const [devicePixelRatio, setDevicePixelRatio] = useState(getDevicePixelRatio);
+  const [level, setLevel] = useState(0);
+  const [stats, setStats] = useState<FrameStats | null>(null);
+
+  // 캔버스의 CSS 크기 추적 (재시작으로 캔버스가 바뀌면 다시 연결)
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !("ResizeObserver" in window)) return;
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      // display: none 인 동안에는 마지막 크기를 유지
+      if (width > 0 && height > 0) setSize({ width, height });
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [canvasRef, canvasKey]);
+
+  // 다른 배율의 모니터로 창을 옮기거나 브라우저 확대/축소 시 DPR 변경 감지
+  useEffect(() => {
+    const query = window.matchMedia(`(resolution: ${devicePixelRatio}dppx)`);
+    const handleChange = () => setDevicePixelRatio(getDevicePixelRatio());
+    query.addEventListener("change", handleChange);
+    return () => query.removeEventListener("change", handleChange);
+  }, [devicePixelRatio]);
+
+  const resolution = useMemo<RenderResolution | null>(() => {
+    if (!size) return null;
+    const dpr = Math.min(devicePixelRatio, maxDevicePixelRatio);
+    const scale = QUALITY_LEVELS[level];
+    return {
+      width: Math.max(1, Math.round(size.width * dpr * scale)),
+      height: Math.max(1, Math.round(size.height * dpr * scale)),
+      devicePixelRatio: dpr,
+      scale,
+    };
+  }, [size, devicePixelRatio, maxDevicePixelRatio, level]);
+
+  // Unity 가 matchWebGLToCanvasSize: false 로 생성되므로 백버퍼 크기는 여기서 관리
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !resolution) return;
+    if (canvas.width !== resolution.width) canvas.width = resolution.width;
+    if (canvas.height !== resolution.height) canvas.height = resolution.height;
+  }, [canvasRef, canvasKey, resolution]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let frame = 0;
+    let windowStart = performance.now();
+    let last = windowStart;
+    let frames = 0;
+    let busy = 0;
+    let slowWindows = 0;
+    let fastWindows = 0;
+
+    const tick = (now: number) => {
+      const delta = now - last;
+      last = now;
+      if (delta > MAX_FRAME_GAP_MS) {
+        windowStart = now;
+        frames = 0;
+        busy = 0;
+      } else {
+        frames += 1;
+        busy += delta;
+      }
+
+      if (now - windowStart >= SAMPLE_WINDOW_MS && frames > 0) {
+        const frameTime = busy / frames;
+        const fps = 1000 / frameTime;
+        const memory = (performance as PerformanceWithMemory).memory;
+        setStats({
+          fps,
+          frameTime,
+          heapUsed: memory?.usedJSHeapSize,
+          heapLimit: memory?.jsHeapSizeLimit,
+        });
+
+        if (fps < targetFrameRate * DOWNGRADE_RATIO) {
+          fastWindows = 0;
+          slowWindows += 1;
+          if (slowWindows >= DOWNGRADE_WINDOWS) {
+            slowWindows = 0;
+            setLevel((value) => Math.min(value + 1, QUALITY_LEVELS.length - 1));
+          }
+        } else if (fps >= targetFrameRate * UPGRADE_RATIO) {
+          slowWindows = 0;
+          fastWindows += 1;
+          if (fastWindows >= UPGRADE_WINDOWS) {
+            fastWindows = 0;
+            setLevel((value) => Math.max(value - 1, 0));
+          }
+        } else {
+          slowWindows = 0;
+          fastWindows = 0;
+        }
+
+        windowStart = now;
+        frames = 0;
+        busy = 0;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frame);
+  }, [enabled, targetFrameRate]);
+
+  return { resolution, stats };
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import { useEffect, useRef, useState, type RefObject } from "react";
+import { sendUnityMessage } from "@/lib/unity/bridge";
+import type { BackgroundBehavior, UnityInstance } from "@/lib/unity/types";
+
+const THROTTLED_FRAME_RATE = 5;
+const VISIBLE_THRESHOLD = 0.1;
+
+export function useBackgroundPause(
+  containerRef: RefObject<HTMLElement | null>,
+  instance: UnityInstance | null,
+  behavior: BackgroundBehavior = "pause"
+) {
+  const [pageVisible, setPageVisible] = useState(true);
+  const [inView, setInView] = useState(true);
+  // 현재 일시정지(또는 감속)시켜 둔 인스턴스. 재시작된 새 인스턴스는 실행 중 상태로 시작
+  const suspendedRef = useRef<UnityInstance | null>(null);
+
+  useEffect(() => {
+    if (behavior === "none") return;
+
+    const handleVisibilityChange = () => {
+      setPageVisible(document.visibilityState === "visible");
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    let observer: IntersectionObserver | null = null;
+    if (containerRef.current && "IntersectionObserver" in window) {
+      observer = new IntersectionObserver(
+        ([entry]) => setInView(entry.intersectionRatio >= VISIBLE_THRESHOLD),
+        { threshold: [0, VISIBLE_THRESHOLD] }
+      );
+      observer.observe(containerRef.current);
+    }
+
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      observer?.disconnect();
+    };
+  }, [containerRef, behavior]);
+
+  const visible = pageVisible && inView;
+
+  useEffect(() => {
+    if (!instance || behavior === "none") return;
+    // 이미 원하는 상태라면 메시지를 다시 보내지 않음
+    if (!visible === (suspendedRef.current === instance)) return;
+
+    try {
+      if (behavior === "pause") {
+        sendUnityMessage(instance, "GameManager", "SetPaused", !visible);
+      } else {
+        sendUnityMessage(
+          instance,
+          "GameManager",
+          "SetTargetFrameRate",
+          visible ? -1 : THROTTLED_FRAME_RATE
+        );
+      }
+      sendUnityMessage(instance, "AudioManager", "SetMuted", !visible);
+      suspendedRef.current = visible ? null : instance;
+    } catch (bridgeError) {
+      console.warn(
+        "[UnityLoader] Failed to update background state:",
+        bridgeError
+      );
+    }
+  }, [instance, behavior, visible]);
+
+  return { visible, suspended: !!instance && behavior !== "none" && !visible };
+}
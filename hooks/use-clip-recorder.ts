@@ -0,0 +1,155 @@
+"use client";
+
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+  type RefObject,
+} from "react";
+import {
+  createClipRecorder,
+  getClipFileName,
+  isClipRecordingSupported,
+  type ClipRecorder,
+  type ClipRecorderMode,
+} from "@/lib/clip-recorder";
+import { getAudioTapStream, installAudioTap } from "@/lib/unity/audio-tap";
+import { downloadBlob } from "@/lib/utils";
+
+export type RecorderStatus = "idle" | "recording" | "buffering";
+
+interface ClipRecorderHookOptions {
+  /** 캔버스가 다시 마운트될 때 바뀌는 키. 바뀌면 진행 중인 녹화를 버림 */
+  canvasKey: number;
+  /** 파일 이름 접두사 */
+  fileName: string;
+  maxDuration?: number;
+  bufferDuration?: number;
+  onSaved?: (clip: Blob) => void;
+  onError?: (error: unknown) => void;
+}
+
+const subscribeNothing = () => () => {};
+
+export function useClipRecorder(
+  canvasRef: RefObject<HTMLCanvasElement | null>,
+  {
+    canvasKey,
+    fileName,
+    maxDuration = 60,
+    bufferDuration = 30,
+    onSaved,
+    onError,
+  }: ClipRecorderHookOptions
+) {
+  const supported = useSyncExternalStore(
+    subscribeNothing,
+    isClipRecordingSupported,
+    () => false
+  );
+  const [status, setStatus] = useState<RecorderStatus>("idle");
+  const [elapsed, setElapsed] = useState(0);
+  const recorderRef = useRef<ClipRecorder | null>(null);
+  const onSavedRef = useRef(onSaved);
+  const onErrorRef = useRef(onError);
+
+  useEffect(() => {
+    onSavedRef.current = onSaved;
+    onErrorRef.current = onError;
+  }, [onSaved, onError]);
+
+  // Unity 가 AudioContext 를 만들기 전에 설치되어야 게임 소리가 녹음됨
+  useEffect(() => {
+    if (!supported) return;
+    return installAudioTap();
+  }, [supported]);
+
+  // 재시작으로 캔버스가 바뀌거나 언마운트되면 녹화 중단
+  useEffect(() => {
+    return () => {
+      recorderRef.current?.cancel();
+      recorderRef.current = null;
+      setStatus("idle");
+    };
+  }, [canvasKey]);
+
+  useEffect(() => {
+    if (status === "idle") return;
+    const timer = setInterval(() => {
+      const recorder = recorderRef.current;
+      if (recorder) {
+        setElapsed(Math.floor((Date.now() - recorder.startedAt) / 1000));
+      }
+    }, 500);
+    return () => clearInterval(timer);
+  }, [status]);
+
+  const save = useCallback(
+    (clip: Blob) => {
+      downloadBlob(clip, getClipFileName(fileName));
+      onSavedRef.current?.(clip);
+    },
+    [fileName]
+  );
+
+  const start = useCallback(
+    (mode: ClipRecorderMode) => {
+      const canvas = canvasRef.current;
+      if (!canvas || recorderRef.current) return;
+      try {
+        recorderRef.current = createClipRecorder(canvas, getAudioTapStream(), {
+          mode,
+          maxDuration,
+          bufferDuration,
+          onAutoStop: (clip) => {
+            recorderRef.current = null;
+            setStatus("idle");
+            save(clip);
+          },
+        });
+        setElapsed(0);
+        setStatus(mode === "clip" ? "recording" : "buffering");
+      } catch (recordError) {
+        onErrorRef.current?.(recordError);
+      }
+    },
+    [canvasRef, maxDuration, bufferDuration, save]
+  );
+
+  /** clip 모드는 녹화 결과를, buffer 모드는 마지막 버퍼를 저장하고 멈춤 */
+  const stop = useCallback(
+    async (discard = false) => {
+      const recorder = recorderRef.current;
+      if (!recorder) return;
+      recorderRef.current = null;
+      setStatus("idle");
+      if (discard) {
+        recorder.cancel();
+        return;
+      }
+      save(await recorder.stop());
+    },
+    [save]
+  );
+
+  /** buffer 모드에서 녹화를 멈추지 않고 마지막 bufferDuration 초를 저장 */
+  const saveBuffer = useCallback(async () => {
+    const recorder = recorderRef.current;
+    if (!recorder || recorder.mode !== "buffer") return;
+    save(await recorder.snapshot());
+  }, [save]);
+
+  return {
+    supported,
+    status,
+    elapsed,
+    maxDuration,
+    bufferDuration,
+    startClip: () => start("clip"),
+    startBuffer: () => start("buffer"),
+    stop,
+    saveBuffer,
+  };
+}
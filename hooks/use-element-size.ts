@@ -0,0 +1,25 @@
+"use client";
+
+import { useEffect, useState, type RefObject } from "react";
+
+export interface ElementSize {
+  width: number;
+  height: number;
+}
+
+export function useElementSize(ref: RefObject<HTMLElement | null>) {
+  const [size, setSize] = useState<ElementSize | null>(null);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || !("ResizeObserver" in window)) return;
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      if (width > 0 && height > 0) setSize({ width, height });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ref]);
+
+  return size;
+}
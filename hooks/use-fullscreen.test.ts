@@ -0,0 +1,169 @@
+import { act, renderHook } from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  fullscreenReducer,
+  initialFullscreenState,
+  useFullscreen,
+  type FullscreenState,
+} from "./use-fullscreen";
+
+const IPHONE_UA =
+  "Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1";
+const ANDROID_UA =
+  "Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0 Mobile Safari/537.36";
+const DESKTOP_UA =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0 Safari/537.36";
+
+// jsdom 에 없는 브라우저 API 를 인스턴스 속성으로 덮어쓰고, 테스트가 끝나면 지움
+const stubbed: [object, PropertyKey][] = [];
+
+function stubProperty(target: object, key: PropertyKey, value: unknown) {
+  Object.defineProperty(target, key, { configurable: true, value });
+  stubbed.push([target, key]);
+}
+
+function stubOrientation(lock?: () => Promise<void>) {
+  const orientation = {
+    type: "landscape-primary",
+    addEventListener: vi.fn(),
+    removeEventListener: vi.fn(),
+    unlock: vi.fn(),
+    ...(lock && { lock: vi.fn(lock) }),
+  };
+  stubProperty(screen, "orientation", orientation);
+  return orientation;
+}
+
+// 표준 API 없이 webkit 접두사 API 만 있는 요소
+function createPrefixedTarget() {
+  const element = document.createElement("div");
+  const request = vi.fn(async () => {
+    stubProperty(document, "webkitFullscreenElement", element);
+  });
+  stubProperty(element, "webkitRequestFullscreen", request);
+  return { element, request };
+}
+
+function renderFullscreen(element: HTMLElement) {
+  return renderHook(() =>
+    useFullscreen({ current: element }, { orientation: "landscape" })
+  );
+}
+
+afterEach(() => {
+  stubbed
+    .splice(0)
+    .reverse()
+    .forEach(([target, key]) => Reflect.deleteProperty(target, key));
+});
+
+describe("fullscreenReducer", () => {
+  const pseudo: FullscreenState = {
+    mode: "pseudo",
+    orientationLock: "idle",
+    landscape: true,
+  };
+
+  it("exits iOS pseudo fullscreen when rotated away from the game orientation", () => {
+    const next = fullscreenReducer(pseudo, {
+      type: "orientation",
+      landscape: false,
+      orientation: "landscape",
+      exitOnMismatch: true,
+    });
+    expect(next).toEqual({ ...initialFullscreenState, landscape: false });
+  });
+
+  it("keeps pseudo fullscreen on rotation when exitOnMismatch is off", () => {
+    const next = fullscreenReducer(pseudo, {
+      type: "orientation",
+      landscape: false,
+      orientation: "landscape",
+      exitOnMismatch: false,
+    });
+    expect(next).toEqual({ ...pseudo, landscape: false });
+  });
+
+  it("leaves native mode when the browser exits fullscreen (Esc)", () => {
+    const next = fullscreenReducer(
+      { mode: "native", orientationLock: "locked", landscape: true },
+      { type: "native-change", active: false, landscape: true }
+    );
+    expect(next).toEqual(initialFullscreenState);
+  });
+
+  it("enters native mode from none when Unity calls SetFullscreen", () => {
+    const next = fullscreenReducer(initialFullscreenState, {
+      type: "native-change",
+      active: true,
+      landscape: true,
+    });
+    expect(next).toEqual({
+      mode: "native",
+      orientationLock: "idle",
+      landscape: true,
+    });
+  });
+});
+
+describe("useFullscreen", () => {
+  it("uses the prefixed API on desktop and reports a rejected orientation lock", async () => {
+    stubProperty(navigator, "userAgent", DESKTOP_UA);
+    const orientation = stubOrientation(() =>
+      Promise.reject(new Error("NotSupportedError"))
+    );
+    const { element, request } = createPrefixedTarget();
+    const { result } = renderFullscreen(element);
+
+    await act(() => result.current.enter());
+
+    expect(request).toHaveBeenCalledOnce();
+    expect(orientation.lock).toHaveBeenCalledWith("landscape");
+    expect(result.current.mode).toBe("native");
+    expect(result.current.orientationLock).toBe("failed");
+  });
+
+  it("locks the orientation on Android and releases it on exit", async () => {
+    stubProperty(navigator, "userAgent", ANDROID_UA);
+    const orientation = stubOrientation(() => Promise.resolve());
+    const exitFullscreen = vi.fn(async () => {
+      stubProperty(document, "webkitFullscreenElement", null);
+    });
+    stubProperty(document, "webkitExitFullscreen", exitFullscreen);
+    const { element } = createPrefixedTarget();
+    const { result } = renderFullscreen(element);
+
+    await act(() => result.current.enter());
+    expect(result.current.orientationLock).toBe("locked");
+
+    await act(() => result.current.exit());
+    expect(orientation.unlock).toHaveBeenCalledOnce();
+    expect(exitFullscreen).toHaveBeenCalledOnce();
+    expect(result.current.mode).toBe("none");
+  });
+
+  it("reports an unsupported lock when the orientation API has no lock", async () => {
+    stubProperty(navigator, "userAgent", ANDROID_UA);
+    stubOrientation();
+    const { element } = createPrefixedTarget();
+    const { result } = renderFullscreen(element);
+
+    await act(() => result.current.enter());
+
+    expect(result.current.mode).toBe("native");
+    expect(result.current.orientationLock).toBe("unsupported");
+  });
+
+  it("falls back to pseudo fullscreen on iOS without calling the Fullscreen API", async () => {
+    stubProperty(navigator, "userAgent", IPHONE_UA);
+    stubOrientation();
+    const { element, request } = createPrefixedTarget();
+    const { result } = renderFullscreen(element);
+
+    await act(() => result.current.enter());
+
+    expect(request).not.toHaveBeenCalled();
+    expect(result.current.mode).toBe("pseudo");
+    expect(result.current.orientationLock).toBe("idle");
+  });
+});
@@ -0,0 +1,292 @@
+"use client";
+
+import { useCallback, useEffect, useReducer, type RefObject } from "react";
+import { isIOS } from "@/lib/device";
+import {
+  isOrientationMismatch,
+  type GameOrientation,
+} from "@/lib/unity/layout";
+
+interface DocumentWithFullscreen extends Document {
+  webkitFullscreenElement?: Element | null;
+  mozFullScreenElement?: Element | null;
+  msFullscreenElement?: Element | null;
+  webkitExitFullscreen?: () => Promise<void>;
+  mozCancelFullScreen?: () => Promise<void>;
+  msExitFullscreen?: () => Promise<void>;
+}
+
+interface HTMLElementWithFullscreen extends HTMLElement {
+  webkitRequestFullscreen?: () => Promise<void>;
+  mozRequestFullScreen?: () => Promise<void>;
+  msRequestFullscreen?: () => Promise<void>;
+}
+
+interface ScreenOrientationWithLock {
+  lock: (orientation: "portrait" | "landscape") => Promise<void>;
+  unlock: () => void;
+}
+
+type OrientationWithLock = ScreenOrientation &
+  Partial<ScreenOrientationWithLock>;
+
+const FULLSCREEN_CHANGE_EVENTS = [
+  "fullscreenchange",
+  "webkitfullscreenchange",
+  "mozfullscreenchange",
+  "MSFullscreenChange",
+];
+
+/**
+ * - `native`: Fullscreen API 로 진입
+ * - `pseudo`: API 가 없거나(iOS Safari) 실패해서 CSS 로 화면을 덮은 상태
+ */
+export type FullscreenMode = "none" | "native" | "pseudo";
+
+/**
+ * - `idle`: 잠금을 시도하지 않음 (전체화면 아님 또는 방향 무관한 게임)
+ * - `unsupported`: Screen Orientation lock API 없음
+ * - `failed`: lock 호출이 거부됨 (데스크톱, 일부 브라우저)
+ */
+export type OrientationLockState = "idle" | "locked" | "unsupported" | "failed";
+
+export interface FullscreenState {
+  mode: FullscreenMode;
+  orientationLock: OrientationLockState;
+  landscape: boolean;
+}
+
+export type FullscreenAction =
+  | { type: "enter"; mode: "native" | "pseudo"; landscape: boolean }
+  | { type: "lock"; state: OrientationLockState }
+  | {
+      type: "orientation";
+      landscape: boolean;
+      orientation: GameOrientation;
+      exitOnMismatch: boolean;
+    }
+  | { type: "native-change"; active: boolean; landscape: boolean }
+  | { type: "exit" };
+
+export const initialFullscreenState: FullscreenState = {
+  mode: "none",
+  orientationLock: "idle",
+  landscape: true,
+};
+
+export function fullscreenReducer(
+  state: FullscreenState,
+  action: FullscreenAction
+): FullscreenState {
+  switch (action.type) {
+    case "enter":
+      return {
+        mode: action.mode,
+        orientationLock: "idle",
+        landscape: action.landscape,
+      };
+    case "lock":
+      if (state.mode === "none") return state;
+      return { ...state, orientationLock: action.state };
+    case "orientation": {
+      const wasMismatched = isOrientationMismatch(
+        action.orientation,
+        state.landscape
+      );
+      const mismatched = isOrientationMismatch(
+        action.orientation,
+        action.landscape
+      );
+      // iOS 의 CSS 전체화면은 맞는 방향으로 돌렸다가 다시 돌리면 해제 (시스템 제스처 대용)
+      if (
+        action.exitOnMismatch &&
+        state.mode === "pseudo" &&
+        !wasMismatched &&
+        mismatched
+      ) {
+        return { ...initialFullscreenState, landscape: action.landscape };
+      }
+      return { ...state, landscape: action.landscape };
+    }
+    case "native-change":
+      // Esc 등 브라우저 UI 로 나간 경우
+      if (!action.active && state.mode === "native") {
+        return { ...initialFullscreenState, landscape: action.landscape };
+      }
+      // Unity SetFullscreen 등 외부에서 진입한 경우
+      if (action.active && state.mode === "none") {
+        return {
+          mode: "native",
+          orientationLock: "idle",
+          landscape: action.landscape,
+        };
+      }
+      return state;
+    case "exit":
+      return { ...initialFullscreenState, landscape: state.landscape };
+  }
+}
+
+export function getFullscreenElement(): Element | null {
+  const doc = document as DocumentWithFullscreen;
+  return (
+    document.fullscreenElement ||
+    doc.webkitFullscreenElement ||
+    doc.mozFullScreenElement ||
+    doc.msFullscreenElement ||
+    null
+  );
+}
+
+async function requestNativeFullscreen(element: HTMLElement) {
+  const el = element as HTMLElementWithFullscreen;
+  const request =
+    element.requestFullscreen ||
+    el.webkitRequestFullscreen ||
+    el.mozRequestFullScreen ||
+    el.msRequestFullscreen;
+  if (!request) return false;
+
+  try {
+    await request.call(element);
+    return true;
+  } catch {
+    // 사용자 제스처 없이 호출되었거나 iframe 권한이 없는 경우
+    return false;
+  }
+}
+
+async function exitNativeFullscreen() {
+  const doc = document as DocumentWithFullscreen;
+  const exit =
+    document.exitFullscreen ||
+    doc.webkitExitFullscreen ||
+    doc.mozCancelFullScreen ||
+    doc.msExitFullscreen;
+  try {
+    await exit?.call(document);
+  } catch {}
+}
+
+function getScreenOrientation(): OrientationWithLock | undefined {
+  return (screen as { orientation?: OrientationWithLock }).orientation;
+}
+
+export function isLandscape(): boolean {
+  const orientation = getScreenOrientation();
+  if (orientation?.type) return orientation.type.includes("landscape");
+  // Screen Orientation API가 없는 경우 window 크기로 판단
+  return window.innerWidth > window.innerHeight;
+}
+
+interface FullscreenOptions {
+  /** 전체화면에서 잠글 방향. `any`면 잠그지 않음 */
+  orientation?: GameOrientation;
+}
+
+export function useFullscreen(
+  targetRef: RefObject<HTMLElement | null>,
+  { orientation = "any" }: FullscreenOptions = {}
+) {
+  const [state, dispatch] = useReducer(
+    fullscreenReducer,
+    initialFullscreenState
+  );
+  const active = state.mode !== "none";
+
+  useEffect(() => {
+    const handleChange = () => {
+      dispatch({
+        type: "native-change",
+        active: !!getFullscreenElement(),
+        landscape: isLandscape(),
+      });
+    };
+    FULLSCREEN_CHANGE_EVENTS.forEach((event) =>
+      document.addEventListener(event, handleChange)
+    );
+    return () => {
+      FULLSCREEN_CHANGE_EVENTS.forEach((event) =>
+        document.removeEventListener(event, handleChange)
+      );
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!active) return;
+
+    const exitOnMismatch = isIOS();
+    const handleChange = () => {
+      dispatch({
+        type: "orientation",
+        landscape: isLandscape(),
+        orientation,
+        exitOnMismatch,
+      });
+    };
+    const screenOrientation = getScreenOrientation();
+    screenOrientation?.addEventListener("change", handleChange);
+    window.addEventListener("resize", handleChange);
+    window.addEventListener("orientationchange", handleChange);
+
+    return () => {
+      screenOrientation?.removeEventListener("change", handleChange);
+      window.removeEventListener("resize", handleChange);
+      window.removeEventListener("orientationchange", handleChange);
+    };
+  }, [active, orientation]);
+
+  const enter = useCallback(async () => {
+    const target = targetRef.current;
+    if (!target) return;
+
+    // iOS: Fullscreen API 대신 CSS 기반 전체화면만 사용
+    const native = !isIOS() && (await requestNativeFullscreen(target));
+    dispatch({
+      type: "enter",
+      mode: native ? "native" : "pseudo",
+      landscape: isLandscape(),
+    });
+
+    if (orientation === "any" || !native) return;
+    const screenOrientation = getScreenOrientation();
+    if (!screenOrientation?.lock) {
+      dispatch({ type: "lock", state: "unsupported" });
+      return;
+    }
+    try {
+      await screenOrientation.lock(orientation);
+      dispatch({ type: "lock", state: "locked" });
+    } catch {
+      dispatch({ type: "lock", state: "failed" });
+    }
+  }, [targetRef, orientation]);
+
+  const exit = useCallback(async () => {
+    if (state.orientationLock === "locked") {
+      try {
+        getScreenOrientation()?.unlock?.();
+      } catch {}
+    }
+    if (getFullscreenElement()) {
+      await exitNativeFullscreen();
+    }
+    dispatch({ type: "exit" });
+  }, [state.orientationLock]);
+
+  const toggle = useCallback(
+    () => (active ? exit() : enter()),
+    [active, enter, exit]
+  );
+
+  return {
+    mode: state.mode,
+    isFullscreen: active,
+    orientationLock: state.orientationLock,
+    orientationMismatch:
+      active && isOrientationMismatch(orientation, state.landscape),
+    enter,
+    exit,
+    toggle,
+  };
+}
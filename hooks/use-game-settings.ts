@@ -0,0 +1,74 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from "react";
+import {
+  getDefaultSettings,
+  normalizeSettingValue,
+  readGameSettings,
+  subscribeGameSettings,
+  writeGameSettings,
+  type GameSettingDefinition,
+  type GameSettingValue,
+} from "@/lib/game-settings";
+import { trySendUnityMessage } from "@/lib/unity/bridge";
+import type { UnityInstance } from "@/lib/unity/types";
+
+const NO_SETTINGS: GameSettingDefinition[] = [];
+
+/**
+ * 게임별 플레이어 설정. 값은 localStorage 에 저장되고, 인스턴스가 시작되면
+ * ApplySettings 로 전체를, 플레이 중 변경은 SetSetting 으로 바로 전달합니다.
+ */
+export function useGameSettings(
+  gameId: string,
+  definitions: GameSettingDefinition[] = NO_SETTINGS,
+  instance: UnityInstance | null
+) {
+  const defaults = useMemo(
+    () => getDefaultSettings(definitions),
+    [definitions]
+  );
+  const values = useSyncExternalStore(
+    subscribeGameSettings,
+    () => readGameSettings(gameId, definitions),
+    () => defaults
+  );
+
+  const update = useCallback(
+    (key: string, value: GameSettingValue) => {
+      const def = definitions.find((item) => item.key === key);
+      if (!def) return;
+      const normalized = normalizeSettingValue(def, value);
+      const current = readGameSettings(gameId, definitions);
+      writeGameSettings(gameId, { ...current, [key]: normalized });
+      if (instance) {
+        trySendUnityMessage(instance, "SettingsManager", "SetSetting", {
+          key,
+          value: normalized,
+        });
+      }
+    },
+    [gameId, definitions, instance]
+  );
+
+  const reset = useCallback(() => {
+    writeGameSettings(gameId, defaults);
+    if (instance) {
+      trySendUnityMessage(
+        instance,
+        "SettingsManager",
+        "ApplySettings",
+        defaults
+      );
+    }
+  }, [gameId, defaults, instance]);
+
+  // 새 인스턴스가 준비되면 저장된 설정 전체를 적용
+  useEffect(() => {
+    if (!instance || definitions.length === 0) return;
+    const current = readGameSettings(gameId, definitions);
+    trySendUnityMessage(instance, "SettingsManager", "ApplySettings", current);
+  }, [instance, gameId, definitions]);
+
+  return { values, update, reset };
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  getConnectedGamepads,
+  getGamepadInfo,
+  isSameGamepadState,
+  normalizeGamepad,
+  type GamepadInfo,
+  type GamepadState,
+} from "@/lib/gamepad";
+import { trySendUnityMessage } from "@/lib/unity/bridge";
+import type { UnityInstance } from "@/lib/unity/types";
+
+/**
+ * 게임패드 연결을 추적하고, 상태가 바뀔 때마다 InputManager 로 전달합니다.
+ * 폴링은 패드가 하나 이상 연결되어 있고 enabled 인 동안만 실행합니다.
+ */
+export function useGamepads(instance: UnityInstance | null, enabled = true) {
+  const [gamepads, setGamepads] = useState<GamepadInfo[]>([]);
+  const lastStatesRef = useRef(new Map<number, GamepadState>());
+  // Unity 에 연결을 알린 패드 (인스턴스가 바뀌면 처음부터 다시 알림)
+  const announcedRef = useRef<{
+    instance: UnityInstance | null;
+    indices: Set<number>;
+  }>({ instance: null, indices: new Set() });
+
+  useEffect(() => {
+    if (!("getGamepads" in navigator)) return;
+
+    const refresh = () => {
+      setGamepads(getConnectedGamepads().map(getGamepadInfo));
+    };
+    // 페이지 로드 전에 연결된 패드는 입력이 들어오기 전까지 이벤트가 오지 않음
+    const frame = requestAnimationFrame(refresh);
+    window.addEventListener("gamepadconnected", refresh);
+    window.addEventListener("gamepaddisconnected", refresh);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener("gamepadconnected", refresh);
+      window.removeEventListener("gamepaddisconnected", refresh);
+    };
+  }, []);
+
+  // 연결/해제를 Unity 에 알림 (새 인스턴스에는 현재 연결 목록을 다시 전달)
+  useEffect(() => {
+    if (!instance) return;
+    const lastStates = lastStatesRef.current;
+    const previous = announcedRef.current;
+    const announced =
+      previous.instance === instance ? previous.indices : new Set<number>();
+    if (previous.instance !== instance) lastStates.clear();
+
+    const current = new Set(gamepads.map((gamepad) => gamepad.index));
+    gamepads
+      .filter((gamepad) => !announced.has(gamepad.index))
+      .forEach((gamepad) =>
+        trySendUnityMessage(
+          instance,
+          "InputManager",
+          "GamepadConnected",
+          gamepad
+        )
+      );
+    announced.forEach((index) => {
+      if (current.has(index)) return;
+      lastStates.delete(index);
+      trySendUnityMessage(instance, "InputManager", "GamepadDisconnected", {
+        index,
+      });
+    });
+    announcedRef.current = { instance, indices: current };
+  }, [instance, gamepads]);
+
+  useEffect(() => {
+    if (!instance || !enabled || gamepads.length === 0) return;
+
+    const lastStates = lastStatesRef.current;
+    let frame = 0;
+    const poll = () => {
+      getConnectedGamepads().forEach((gamepad) => {
+        const state = normalizeGamepad(gamepad);
+        const last = lastStates.get(state.index);
+        if (last && isSameGamepadState(last, state)) return;
+        lastStates.set(state.index, state);
+        trySendUnityMessage(instance, "InputManager", "SetGamepadState", state);
+      });
+      frame = requestAnimationFrame(poll);
+    };
+    frame = requestAnimationFrame(poll);
+
+    return () => cancelAnimationFrame(frame);
+  }, [instance, enabled, gamepads]);
+
+  return gamepads;
+}
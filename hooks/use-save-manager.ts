@@ -0,0 +1,148 @@
+"use client";
+
+import { useCallback, useState, useSyncExternalStore } from "react";
+import { useUnityEvent } from "@/hooks/use-unity-event";
+import {
+  createSaveArchive,
+  fetchSaveArchive,
+  flushUnitySaves,
+  getArchiveFiles,
+  getSaveArchiveFileName,
+  listSaveFiles,
+  parseSaveArchive,
+  readSaveScope,
+  replaceSaveFiles,
+  subscribeSaveScope,
+  uploadSaveArchive,
+  writeSaveScope,
+  type SaveArchive,
+  type SaveFile,
+} from "@/lib/unity/saves";
+import type { UnityInstance } from "@/lib/unity/types";
+import { downloadBlob } from "@/lib/utils";
+
+/**
+ * Unity IDBFS 세이브 목록과 내보내기/가져오기, 서버 백업.
+ * 게임이 `savePathReady` 로 알려준 폴더만 다루며, 그 전에는 scope 가 null 이고 모든 작업이 실패합니다.
+ * 가져오기는 실행 중인 인스턴스를 종료한 뒤 IndexedDB 를 교체하고 다시 시작합니다.
+ */
+export function useSaveManager(
+  gameId: string,
+  instance: UnityInstance | null,
+  reload: (afterQuit?: () => Promise<void>) => void
+) {
+  const [files, setFiles] = useState<SaveFile[]>([]);
+  const [busy, setBusy] = useState(false);
+  const scope = useSyncExternalStore(
+    subscribeSaveScope,
+    () => readSaveScope(gameId),
+    () => null
+  );
+
+  useUnityEvent("savePathReady", ({ path }) => writeSaveScope(gameId, path));
+
+  const requireScope = useCallback(() => {
+    if (!scope) throw new Error("The game has not reported its save path yet");
+    return scope;
+  }, [scope]);
+
+  const run = useCallback(async <T>(task: () => Promise<T>) => {
+    setBusy(true);
+    try {
+      return await task();
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  // 메모리에만 있는 변경분까지 포함하도록 먼저 플러시
+  const collect = useCallback(async () => {
+    const current = requireScope();
+    if (instance) await flushUnitySaves(instance);
+    const list = await listSaveFiles(current);
+    setFiles(list);
+    return list;
+  }, [instance, requireScope]);
+
+  const refresh = useCallback(() => run(collect), [run, collect]);
+
+  const restore = useCallback(
+    (archive: SaveArchive) =>
+      new Promise<void>((resolve, reject) => {
+        const current = requireScope();
+        const next = getArchiveFiles(archive, current);
+        reload(async () => {
+          try {
+            await replaceSaveFiles(next, current);
+            setFiles(next);
+            resolve();
+          } catch (restoreError) {
+            reject(restoreError);
+          }
+        });
+      }),
+    [reload, requireScope]
+  );
+
+  const exportArchive = useCallback(
+    () =>
+      run(async () => {
+        const archive = createSaveArchive(
+          gameId,
+          requireScope(),
+          await collect()
+        );
+        downloadBlob(
+          new Blob([JSON.stringify(archive)], { type: "application/json" }),
+          getSaveArchiveFileName(gameId)
+        );
+      }),
+    [run, collect, gameId, requireScope]
+  );
+
+  const importArchive = useCallback(
+    (file: File) =>
+      run(async () => {
+        const archive = parseSaveArchive(JSON.parse(await file.text()), gameId);
+        await restore(archive);
+      }),
+    [run, restore, gameId]
+  );
+
+  const backup = useCallback(
+    () =>
+      run(async () => {
+        await uploadSaveArchive(
+          createSaveArchive(gameId, requireScope(), await collect())
+        );
+      }),
+    [run, collect, gameId, requireScope]
+  );
+
+  /**
+   * 서버 백업으로 복원. 백업이 없으면 false
+   */
+  const restoreBackup = useCallback(
+    () =>
+      run(async () => {
+        const archive = await fetchSaveArchive(gameId);
+        if (!archive) return false;
+        await restore(archive);
+        return true;
+      }),
+    [run, restore, gameId]
+  );
+
+  return {
+    scope,
+    files,
+    busy,
+    refresh,
+    exportArchive,
+    importArchive,
+    backup,
+    restoreBackup,
+  };
+}
+
+export type SaveManager = ReturnType<typeof useSaveManager>;
@@ -0,0 +1,148 @@
+"use client";
+
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  type RefObject,
+} from "react";
+import {
+  captureCanvas,
+  deleteScreenshot,
+  getScreenshotFileName,
+  listScreenshots,
+  MAX_SCREENSHOTS,
+  saveScreenshot,
+  type Screenshot,
+} from "@/lib/screenshots";
+import { downloadBlob } from "@/lib/utils";
+
+export interface ScreenshotItem extends Screenshot {
+  url: string;
+}
+
+export function useScreenshots(
+  canvasRef: RefObject<HTMLCanvasElement | null>,
+  gameId: string
+) {
+  const [shots, setShots] = useState<ScreenshotItem[]>([]);
+  // 썸네일용 object URL. 목록에서 빠지거나 언마운트되면 해제
+  const urlsRef = useRef(new Set<string>());
+
+  const toItem = useCallback((shot: Screenshot): ScreenshotItem => {
+    const url = URL.createObjectURL(shot.blob);
+    urlsRef.current.add(url);
+    return { ...shot, url };
+  }, []);
+
+  const release = useCallback((items: ScreenshotItem[]) => {
+    items.forEach((item) => {
+      URL.revokeObjectURL(item.url);
+      urlsRef.current.delete(item.url);
+    });
+  }, []);
+
+  useEffect(() => {
+    const urls = urlsRef.current;
+    return () => {
+      urls.forEach((url) => URL.revokeObjectURL(url));
+      urls.clear();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!("indexedDB" in window)) return;
+    let cancelled = false;
+
+    listScreenshots(gameId)
+      .then((list) => {
+        if (cancelled) return;
+        setShots((current) => {
+          release(current);
+          return list.map(toItem);
+        });
+      })
+      .catch((dbError) => {
+        console.warn("[Screenshots] Failed to load gallery:", dbError);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [gameId, toItem, release]);
+
+  const capture = useCallback(async () => {
+    const canvas = canvasRef.current;
+    if (!canvas) throw new Error("Canvas not found");
+
+    const blob = await captureCanvas(canvas);
+    const size = { width: canvas.width, height: canvas.height };
+    let shot: Screenshot;
+    try {
+      shot = await saveScreenshot(gameId, blob, size);
+    } catch (dbError) {
+      // 시크릿 모드 등 IndexedDB 를 쓸 수 없어도 캡처 자체는 유지
+      console.warn("[Screenshots] Failed to save screenshot:", dbError);
+      shot = { id: -Date.now(), gameId, createdAt: Date.now(), ...size, blob };
+    }
+
+    const item = toItem(shot);
+    setShots((current) => {
+      const next = [item, ...current];
+      release(next.slice(MAX_SCREENSHOTS));
+      return next.slice(0, MAX_SCREENSHOTS);
+    });
+    return item;
+  }, [canvasRef, gameId, toItem, release]);
+
+  const remove = useCallback(
+    async (shot: ScreenshotItem) => {
+      setShots((current) => current.filter((item) => item.id !== shot.id));
+      release([shot]);
+      if (shot.id > 0) {
+        await deleteScreenshot(shot.id).catch((dbError) => {
+          console.warn("[Screenshots] Failed to delete screenshot:", dbError);
+        });
+      }
+    },
+    [release]
+  );
+
+  const download = useCallback(
+    (shot: ScreenshotItem) => {
+      downloadBlob(shot.blob, getScreenshotFileName(gameId, shot));
+    },
+    [gameId]
+  );
+
+  /**
+   * Web Share API 로 공유. 파일 공유를 지원하지 않으면 다운로드로 대체하고 false 반환
+   */
+  const share = useCallback(
+    async (shot: ScreenshotItem, title?: string) => {
+      const file = new File([shot.blob], getScreenshotFileName(gameId, shot), {
+        type: "image/png",
+      });
+      if (navigator.canShare?.({ files: [file] })) {
+        try {
+          await navigator.share({ files: [file], title });
+          return true;
+        } catch (shareError) {
+          // 사용자가 공유 시트를 닫은 경우
+          if (
+            shareError instanceof DOMException &&
+            shareError.name === "AbortError"
+          ) {
+            return true;
+          }
+        }
+      }
+      download(shot);
+      return false;
+    },
+    [gameId, download]
+  );
+
+  return { shots, capture, remove, download, share };
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import { useCallback, useState } from "react";
+
+export type ToastType = "info" | "warning" | "error";
+
+export interface ToastItem {
+  id: number;
+  type: ToastType;
+  message: string;
+  /** 같은 메시지가 반복될 때 새 토스트 대신 증가 */
+  count: number;
+}
+
+let nextToastId = 0;
+
+export function useToast() {
+  const [toasts, setToasts] = useState<ToastItem[]>([]);
+
+  const toast = useCallback((type: ToastType, message: string) => {
+    setToasts((current) => {
+      const duplicate = current.find(
+        (item) => item.type === type && item.message === message
+      );
+      if (duplicate) {
+        return current.map((item) =>
+          item === duplicate ? { ...item, count: item.count + 1 } : item
+        );
+      }
+      nextToastId += 1;
+      return [...current, { id: nextToastId, type, message, count: 1 }];
+    });
+  }, []);
+
+  const dismiss = useCallback((id: number) => {
+    setToasts((current) => current.filter((item) => item.id !== id));
+  }, []);
+
+  const clear = useCallback(() => setToasts([]), []);
+
+  return { toasts, toast, dismiss, clear };
+}
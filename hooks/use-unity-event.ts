@@ -0,0 +1,27 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import {
+  installUnityBridge,
+  subscribeUnityEvent,
+  type UnityEventHandler,
+  type UnityEventName,
+} from "@/lib/unity/bridge";
+
+export function useUnityEvent<E extends UnityEventName>(
+  eventName: E,
+  handler: UnityEventHandler<E>
+) {
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  }, [handler]);
+
+  useEffect(() => {
+    installUnityBridge();
+    return subscribeUnityEvent(eventName, (payload) =>
+      handlerRef.current(payload)
+    );
+  }, [eventName]);
+}
@@ -0,0 +1,516 @@
+"use client";
+
+import {
+  useCallback,
+  useEffect,
+  useReducer,
+  useRef,
+  useState,
+  type RefObject,
+} from "react";
+import { useTranslations } from "next-intl";
+import {
+  fetchBuildConfig,
+  loadUnityScript,
+  removeUnityScript,
+  resolveUnityBuild,
+  type ResolvedUnityBuild,
+  type UnityBuildLocation,
+} from "@/lib/unity/build";
+import type { BuildConfigIssue } from "@/lib/unity/build-config";
+import {
+  confirmBuildCache,
+  prepareBuildCache,
+  type BuildCacheKey,
+  type BuildCacheStatus,
+} from "@/lib/unity/build-cache";
+import {
+  checkDeviceCapabilities,
+  type CapabilityReport,
+} from "@/lib/unity/capabilities";
+import {
+  createDownloadTracker,
+  UNITY_DOWNLOAD_PROGRESS,
+  type DownloadSnapshot,
+} from "@/lib/unity/download-tracker";
+import {
+  installUnityBridge,
+  sendUnityMessage,
+  type UnityMethod,
+  type UnityPayload,
+  type UnityTarget,
+} from "@/lib/unity/bridge";
+import type { UnityBannerType, UnityInstance } from "@/lib/unity/types";
+
+export type UnityStatus =
+  | "idle"
+  | "unsupported"
+  | "fetching-manifest"
+  | "loading-script"
+  | "instantiating"
+  | "running"
+  | "quitting"
+  | "error";
+
+interface UnityState {
+  status: UnityStatus;
+  progress: number;
+  error: string | null;
+  instance: UnityInstance | null;
+  build: ResolvedUnityBuild | null;
+  configIssues: BuildConfigIssue[];
+  cacheStatus: BuildCacheStatus;
+  download: DownloadSnapshot | null;
+  capabilities: CapabilityReport | null;
+  retryDelay: number;
+}
+
+type UnityAction =
+  | { type: "backoff"; delay: number }
+  | { type: "unsupported"; capabilities: CapabilityReport }
+  | { type: "fetch-manifest"; capabilities: CapabilityReport }
+  | {
+      type: "load-script";
+      build: ResolvedUnityBuild;
+      configIssues: BuildConfigIssue[];
+      cacheStatus: BuildCacheStatus;
+    }
+  | { type: "instantiate" }
+  | { type: "progress"; progress: number }
+  | { type: "download"; snapshot: DownloadSnapshot }
+  | { type: "running"; instance: UnityInstance }
+  | { type: "cache-status"; cacheStatus: BuildCacheStatus }
+  | { type: "quit" }
+  | { type: "quit-done" }
+  | { type: "fail"; error: string };
+
+const initialState: UnityState = {
+  status: "idle",
+  progress: 0,
+  error: null,
+  instance: null,
+  build: null,
+  configIssues: [],
+  cacheStatus: "unavailable",
+  download: null,
+  capabilities: null,
+  retryDelay: 0,
+};
+
+const RETRY_BASE_DELAY = 1000;
+const RETRY_MAX_DELAY = 30000;
+
+function unityReducer(state: UnityState, action: UnityAction): UnityState {
+  switch (action.type) {
+    case "backoff":
+      return { ...initialState, retryDelay: action.delay };
+    case "unsupported":
+      return {
+        ...initialState,
+        status: "unsupported",
+        capabilities: action.capabilities,
+      };
+    case "fetch-manifest":
+      return {
+        ...initialState,
+        status: "fetching-manifest",
+        capabilities: action.capabilities,
+      };
+    case "load-script":
+      return {
+        ...state,
+        status: "loading-script",
+        build: action.build,
+        configIssues: action.configIssues,
+        cacheStatus: action.cacheStatus,
+      };
+    case "instantiate":
+      return { ...state, status: "instantiating" };
+    case "progress":
+      // 인스턴스 생성 중에만 진행률을 반영 (종료 이후 늦게 도착한 콜백 무시)
+      if (state.status !== "instantiating") return state;
+      return { ...state, progress: action.progress };
+    case "download":
+      if (state.status !== "instantiating") return state;
+      return { ...state, download: action.snapshot };
+    case "running":
+      // Unity 오류 배너로 이미 실패한 세션의 인스턴스는 표시하지 않음 (정리 시 종료)
+      if (state.status === "error") return state;
+      return {
+        ...state,
+        status: "running",
+        progress: 100,
+        instance: action.instance,
+      };
+    case "cache-status":
+      if (state.status !== "running") return state;
+      return { ...state, cacheStatus: action.cacheStatus };
+    case "quit":
+      return { ...state, status: "quitting", instance: null };
+    case "quit-done":
+      return initialState;
+    case "fail":
+      return { ...state, status: "error", error: action.error };
+  }
+}
+
+async function quitUnityInstance(instance: UnityInstance) {
+  try {
+    await instance.Quit();
+  } catch {}
+}
+
+// 첫 재시도는 즉시, 이후 연속 실패마다 1s, 2s, 4s ... 최대 30s 까지 대기
+export function getRetryDelay(failures: number) {
+  if (failures <= 1) return 0;
+  return Math.min(RETRY_BASE_DELAY * 2 ** (failures - 2), RETRY_MAX_DELAY);
+}
+
+export function isUnityLoading(status: UnityStatus) {
+  return (
+    status === "fetching-manifest" ||
+    status === "loading-script" ||
+    status === "instantiating"
+  );
+}
+
+interface UseUnityInstanceOptions extends UnityBuildLocation {
+  /** 지정하면 빌드 에셋을 게임/빌드/버전별 Cache Storage에 보관합니다. */
+  gameId?: string;
+  /** 캐시를 나누는 빌드 id. 없으면 빌드 경로를 사용 */
+  buildId?: string;
+  /** 카탈로그에 남아 있는 빌드 id. 목록에 없는 빌드의 캐시는 삭제 */
+  activeBuildIds?: string[];
+  canvasRef: RefObject<HTMLCanvasElement | null>;
+  onReady?: (instance: UnityInstance) => void;
+  /** Unity `showBanner`의 경고/정보 메시지. 오류는 `error` 상태로 전환됩니다. */
+  onBanner?: (type: Exclude<UnityBannerType, "error">, message: string) => void;
+  /** 빌드 파일을 받기 전에 실행한 기기 성능 검사 결과 */
+  onCapabilities?: (report: CapabilityReport) => void;
+  /** 스크린샷 캡처용. 켜면 매 프레임 버퍼를 보존하므로 약간의 성능 비용이 있음 */
+  preserveDrawingBuffer?: boolean;
+  /** `Quit()` 직전에 호출. 세이브 플러시처럼 인스턴스가 살아 있어야 하는 정리 작업용 */
+  onBeforeQuit?: (instance: UnityInstance) => Promise<void> | void;
+}
+
+export function useUnityInstance({
+  canvasRef,
+  buildUrl,
+  buildFolder,
+  buildName,
+  gameId,
+  buildId,
+  activeBuildIds,
+  onReady,
+  onBanner,
+  onCapabilities,
+  preserveDrawingBuffer = false,
+  onBeforeQuit,
+}: UseUnityInstanceOptions) {
+  const translate = useTranslations();
+  // 로케일이 바뀌어도 실행 중인 인스턴스를 다시 만들지 않도록 ref 로 참조
+  const tRef = useRef(translate);
+  const [state, dispatch] = useReducer(unityReducer, initialState);
+  const [session, setSession] = useState({ generation: 0, active: true });
+  const [restartCount, setRestartCount] = useState(0);
+  const instanceRef = useRef<UnityInstance | null>(null);
+  const teardownRef = useRef<Promise<void>>(Promise.resolve());
+  const failuresRef = useRef(0);
+  const onReadyRef = useRef(onReady);
+  const onBannerRef = useRef(onBanner);
+  const onCapabilitiesRef = useRef(onCapabilities);
+  const onBeforeQuitRef = useRef(onBeforeQuit);
+  const activeBuildIdsRef = useRef(activeBuildIds);
+  const afterQuitRef = useRef<(() => Promise<void>) | null>(null);
+  const capabilitiesRef = useRef<CapabilityReport | null>(null);
+  const ignoreCapabilitiesRef = useRef(false);
+
+  useEffect(() => {
+    onReadyRef.current = onReady;
+    onBannerRef.current = onBanner;
+    onCapabilitiesRef.current = onCapabilities;
+    onBeforeQuitRef.current = onBeforeQuit;
+    activeBuildIdsRef.current = activeBuildIds;
+    tRef.current = translate;
+  }, [
+    onReady,
+    onBanner,
+    onCapabilities,
+    onBeforeQuit,
+    activeBuildIds,
+    translate,
+  ]);
+
+  useEffect(() => {
+    let cancelled = false;
+    let script: HTMLScriptElement | null = null;
+    let instancePromise: Promise<UnityInstance | null> = Promise.resolve(null);
+    let downloadTracker: ReturnType<typeof createDownloadTracker> | null = null;
+    // 이전 세션(Strict Mode의 이중 실행 포함)이 완전히 정리된 뒤에만 시작
+    const previousTeardown = teardownRef.current;
+    const t = tRef.current;
+    // 오류 배너 뒤에 createUnityInstance 가 다시 실패해도 한 번만 집계
+    let failed = false;
+
+    const reportFailure = (error: string) => {
+      if (cancelled || failed) return;
+      failed = true;
+      failuresRef.current += 1;
+      dispatch({ type: "fail", error });
+    };
+
+    const fail = (err: unknown) => {
+      reportFailure(
+        err instanceof Error
+          ? `${err.message}\n\n${t("game.consoleCheck")}`
+          : `${t("game.loadError")}\n\n${t("game.consoleCheck")}`
+      );
+    };
+
+    const start = async () => {
+      await previousTeardown;
+      if (cancelled) return;
+
+      if (!session.active) {
+        dispatch({ type: "quit-done" });
+        return;
+      }
+      if (!canvasRef.current) return;
+      installUnityBridge();
+
+      const retryDelay = getRetryDelay(failuresRef.current);
+      if (retryDelay > 0) {
+        dispatch({ type: "backoff", delay: retryDelay });
+        await new Promise((resolve) => setTimeout(resolve, retryDelay));
+        if (cancelled) return;
+      }
+
+      // 빌드 파일을 받기 전에 기기가 게임을 실행할 수 있는지 먼저 확인
+      if (!capabilitiesRef.current) {
+        capabilitiesRef.current = checkDeviceCapabilities();
+        onCapabilitiesRef.current?.(capabilitiesRef.current);
+      }
+      const capabilities = capabilitiesRef.current;
+      if (
+        capabilities.verdict === "unsupported" &&
+        !ignoreCapabilitiesRef.current
+      ) {
+        dispatch({ type: "unsupported", capabilities });
+        return;
+      }
+
+      dispatch({ type: "fetch-manifest", capabilities });
+      const location = { buildUrl, buildFolder, buildName };
+      const { config: buildConfig, issues: configIssues } =
+        await fetchBuildConfig(location);
+      if (cancelled) return;
+
+      if (configIssues.length > 0) {
+        console.warn("[UnityLoader] Build.json issues:", configIssues);
+      }
+
+      const resolved = resolveUnityBuild(location, buildConfig);
+      const cacheKey: BuildCacheKey | null = gameId
+        ? {
+            gameId,
+            buildId: buildId ?? resolved.buildPath,
+            version: buildConfig?.productVersion,
+            activeBuildIds: activeBuildIdsRef.current,
+          }
+        : null;
+      const cacheStatus = cacheKey
+        ? await prepareBuildCache(cacheKey, resolved)
+        : "unavailable";
+      if (cancelled) return;
+
+      dispatch({
+        type: "load-script",
+        build: resolved,
+        configIssues,
+        cacheStatus,
+      });
+      try {
+        await loadUnityScript(resolved.loaderUrl, (created) => {
+          script = created;
+        });
+      } catch {
+        reportFailure(
+          `${t("game.scriptLoadError")}\n\n${t("game.scriptLoadErrorDetails", {
+            url: resolved.loaderUrl,
+          })}\n\n${t("game.scriptLoadErrorCauses")}`
+        );
+        return;
+      }
+      if (cancelled) return;
+
+      if (!window.createUnityInstance) {
+        throw new Error(t("game.loaderNotFound"));
+      }
+      if (!canvasRef.current) {
+        throw new Error(t("game.canvasNotFound"));
+      }
+      if (!canvasRef.current.isConnected) {
+        throw new Error(t("game.canvasNotConnected"));
+      }
+
+      const showBanner = (msg: string, type: UnityBannerType) => {
+        if (type === "error") {
+          fail(new Error(msg));
+        } else if (!cancelled) {
+          onBannerRef.current?.(type, msg);
+        }
+      };
+
+      dispatch({ type: "instantiate" });
+      downloadTracker = createDownloadTracker(resolved, (snapshot) => {
+        dispatch({ type: "download", snapshot });
+      });
+      const pending = window.createUnityInstance(
+        canvasRef.current,
+        // 백버퍼 크기는 useAdaptiveResolution 이 관리
+        {
+          ...resolved.config,
+          showBanner,
+          matchWebGLToCanvasSize: false,
+          webglContextAttributes: { preserveDrawingBuffer },
+        },
+        (progress: number) => {
+          dispatch({ type: "progress", progress: Math.round(progress * 100) });
+          if (progress >= UNITY_DOWNLOAD_PROGRESS) downloadTracker?.complete();
+        }
+      );
+      instancePromise = pending.catch(() => null);
+      pending.finally(() => downloadTracker?.stop()).catch(() => {});
+
+      let instance: UnityInstance;
+      try {
+        instance = await pending;
+      } catch (unityError) {
+        if (
+          unityError instanceof Error &&
+          unityError.message.includes("querySelector")
+        ) {
+          throw new Error(t("game.domError", { error: unityError.message }));
+        }
+        throw unityError;
+      }
+      if (cancelled || failed) return;
+
+      failuresRef.current = 0;
+      instanceRef.current = instance;
+      onReadyRef.current?.(instance);
+      dispatch({ type: "running", instance });
+
+      // 다운로드가 끝났어도 실제로 캐시에 저장됐는지는 서비스 워커에 확인
+      if (cacheKey && cacheStatus !== "unavailable") {
+        const confirmed = await confirmBuildCache(cacheKey, resolved).catch(
+          () => "unavailable" as const
+        );
+        if (!cancelled)
+          dispatch({ type: "cache-status", cacheStatus: confirmed });
+      }
+    };
+
+    start().catch(fail);
+
+    return () => {
+      cancelled = true;
+      instanceRef.current = null;
+      downloadTracker?.stop();
+      const onBeforeQuit = onBeforeQuitRef.current;
+      const afterQuit = afterQuitRef.current;
+      afterQuitRef.current = null;
+      teardownRef.current = previousTeardown.then(async () => {
+        // 생성 중이던 인스턴스도 끝까지 기다렸다가 종료해 캔버스 이중 초기화를 막음
+        const instance = await instancePromise;
+        if (instance) {
+          try {
+            await onBeforeQuit?.(instance);
+          } catch (quitError) {
+            console.warn("[UnityInstance] onBeforeQuit failed:", quitError);
+          }
+          await quitUnityInstance(instance);
+        }
+        removeUnityScript(script);
+        delete window.createUnityInstance;
+        try {
+          await afterQuit?.();
+        } catch (quitError) {
+          console.warn("[UnityInstance] afterQuit task failed:", quitError);
+        }
+      });
+    };
+  }, [
+    buildUrl,
+    buildFolder,
+    buildName,
+    gameId,
+    buildId,
+    canvasRef,
+    preserveDrawingBuffer,
+    session,
+  ]);
+
+  const quit = useCallback(() => {
+    dispatch({ type: "quit" });
+    setSession((current) => ({ ...current, active: false }));
+  }, []);
+
+  /**
+   * 인스턴스를 다시 시작. `afterQuit` 은 기존 인스턴스가 종료된 뒤, 새 인스턴스가
+   * 시작되기 전에 실행됩니다 (IndexedDB 세이브 교체 등).
+   */
+  const reload = useCallback((afterQuit?: () => Promise<void>) => {
+    afterQuitRef.current = afterQuit ?? null;
+    if (instanceRef.current) {
+      dispatch({ type: "quit" });
+    }
+    setRestartCount((count) => count + 1);
+    setSession((current) => ({
+      generation: current.generation + 1,
+      active: true,
+    }));
+  }, []);
+
+  // 미지원 기기 판정을 무시하고 로드를 시도
+  const continueAnyway = useCallback(() => {
+    ignoreCapabilitiesRef.current = true;
+    reload();
+  }, [reload]);
+
+  const sendMessage = useCallback(
+    <T extends UnityTarget, M extends UnityMethod<T>>(
+      target: T,
+      method: M,
+      ...payload: UnityPayload<T, M> extends undefined
+        ? []
+        : [UnityPayload<T, M>]
+    ) => {
+      const instance = instanceRef.current;
+      if (!instance) return false;
+      sendUnityMessage(instance, target, method, ...payload);
+      return true;
+    },
+    []
+  );
+
+  return {
+    status: state.status,
+    progress: state.progress,
+    error: state.error,
+    instance: state.instance,
+    build: state.build,
+    configIssues: state.configIssues,
+    cacheStatus: state.cacheStatus,
+    download: state.download,
+    capabilities: state.capabilities,
+    retryDelay: state.retryDelay,
+    restartCount,
+    /** 재시작마다 바뀌는 값. 캔버스의 `key`로 사용해 새 WebGL 컨텍스트를 보장합니다. */
+    canvasKey: session.generation,
+    reload,
+    continueAnyway,
+    quit,
+    sendMessage,
+  };
+}
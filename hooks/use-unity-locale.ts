@@ -0,0 +1,39 @@
+"use client";
+
+import { useEffect } from "react";
+import { useLocale } from "next-intl";
+import { useLocaleSwitch } from "@/components/locale-provider";
+import type { GameSettingValue } from "@/lib/game-settings";
+import { trySendUnityMessage } from "@/lib/unity/bridge";
+import type { UnityInstance } from "@/lib/unity/types";
+
+/**
+ * 사이트 로케일을 Unity 에 전달합니다. 게임 화면에서는 로케일을 바꿔도 페이지를
+ * 다시 불러오지 않고(로딩 중인 인스턴스 포함) SetLanguage 만 다시 보냅니다.
+ * 플레이어가 게임 설정 `language` 를 "auto" 가 아닌 값으로 골랐으면 그 값을 보냅니다.
+ */
+export function useUnityLocale(
+  instance: UnityInstance | null,
+  languageSetting?: GameSettingValue
+) {
+  const locale = useLocale();
+  const { retainPage } = useLocaleSwitch();
+  const language =
+    typeof languageSetting === "string" && languageSetting !== "auto"
+      ? languageSetting
+      : locale;
+
+  useEffect(() => retainPage(), [retainPage]);
+
+  useEffect(() => {
+    if (!instance) return;
+    trySendUnityMessage(
+      instance,
+      "LocalizationManager",
+      "SetLanguage",
+      language
+    );
+  }, [instance, language]);
+
+  return locale;
+}
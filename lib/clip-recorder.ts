@@ -0,0 +1,191 @@
+// MediaRecorder 가 데이터를 내보내는 주기
+const TIMESLICE_MS = 1000;
+const MIME_TYPES = [
+  "video/webm;codecs=vp9,opus",
+  "video/webm;codecs=vp8,opus",
+  "video/webm",
+];
+
+/**
+ * - `clip`: 시작~정지까지 녹화 (maxDuration 에서 자동 정지)
+ * - `buffer`: 계속 녹화하면서 마지막 bufferDuration 초(최대 그 두 배)만 보관
+ */
+export type ClipRecorderMode = "clip" | "buffer";
+
+export interface ClipRecorderOptions {
+  mode: ClipRecorderMode;
+  /** clip 모드 최대 길이(초) */
+  maxDuration: number;
+  /** buffer 모드에서 보관할 길이(초) */
+  bufferDuration: number;
+  frameRate?: number;
+  /** maxDuration 에 도달해 자동으로 멈췄을 때 */
+  onAutoStop?: (clip: Blob) => void;
+}
+
+export interface ClipRecorder {
+  mode: ClipRecorderMode;
+  startedAt: number;
+  /** 녹화를 끝내고 결과 반환 */
+  stop: () => Promise<Blob>;
+  /** buffer 모드: 녹화를 계속하면서 현재 버퍼를 클립으로 반환 */
+  snapshot: () => Promise<Blob>;
+  /** 결과 없이 중단 */
+  cancel: () => void;
+}
+
+function pickMimeType() {
+  return MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+}
+
+export function isClipRecordingSupported() {
+  return (
+    typeof MediaRecorder !== "undefined" &&
+    typeof HTMLCanvasElement !== "undefined" &&
+    "captureStream" in HTMLCanvasElement.prototype &&
+    !!pickMimeType()
+  );
+}
+
+interface Segment {
+  recorder: MediaRecorder;
+  chunks: Blob[];
+  /** 다음 dataavailable 이후 호출 */
+  waiting: (() => void)[];
+}
+
+/**
+ * WebM 은 첫 청크에만 헤더가 있어 중간 청크를 잘라 붙이면 재생되지 않으므로, 버퍼 모드는
+ * bufferDuration 마다 MediaRecorder 를 새로 시작해 두 세그먼트를 엇갈려 녹화합니다.
+ * 저장할 때는 오래된 세그먼트 하나를 통째로 사용하므로 클립 길이는 bufferDuration ~ 2배입니다.
+ */
+export function createClipRecorder(
+  canvas: HTMLCanvasElement,
+  audio: MediaStream | null,
+  {
+    mode,
+    maxDuration,
+    bufferDuration,
+    frameRate,
+    onAutoStop,
+  }: ClipRecorderOptions
+): ClipRecorder {
+  const stream = canvas.captureStream(frameRate);
+  audio?.getAudioTracks().forEach((track) => stream.addTrack(track));
+
+  const mimeType = pickMimeType();
+  let type = mimeType ?? "video/webm";
+  let segments: Segment[] = [];
+  let autoStopTimer: ReturnType<typeof setTimeout> | undefined;
+  let rotateTimer: ReturnType<typeof setInterval> | undefined;
+
+  const toBlob = (segment: Segment | undefined) =>
+    new Blob(segment?.chunks ?? [], { type });
+
+  const flushWaiting = (segment: Segment) => {
+    const waiting = segment.waiting;
+    segment.waiting = [];
+    waiting.forEach((resolve) => resolve());
+  };
+
+  const startSegment = () => {
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : {});
+    const segment: Segment = { recorder, chunks: [], waiting: [] };
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) segment.chunks.push(event.data);
+      flushWaiting(segment);
+    };
+    recorder.start(TIMESLICE_MS);
+    type = recorder.mimeType || type;
+    segments.push(segment);
+  };
+
+  const discardSegment = (segment: Segment) => {
+    // 이 세그먼트를 기다리던 snapshot 은 지금까지 받은 데이터로 마무리
+    flushWaiting(segment);
+    segment.recorder.ondataavailable = null;
+    segment.recorder.onstop = null;
+    if (segment.recorder.state !== "inactive") segment.recorder.stop();
+    segment.chunks = [];
+  };
+
+  const rotate = () => {
+    try {
+      startSegment();
+    } catch (rotateError) {
+      console.warn(
+        "[ClipRecorder] Failed to start a new segment:",
+        rotateError
+      );
+      return;
+    }
+    if (segments.length > 2) {
+      const [oldest, ...rest] = segments;
+      segments = rest;
+      discardSegment(oldest);
+    }
+  };
+
+  // 캔버스 트랙만 정지 (오디오 탭 트랙은 다음 녹화에서도 재사용)
+  const releaseTracks = () => {
+    stream.getVideoTracks().forEach((track) => track.stop());
+  };
+
+  const clearTimers = () => {
+    clearTimeout(autoStopTimer);
+    clearInterval(rotateTimer);
+  };
+
+  const stop = () =>
+    new Promise<Blob>((resolve) => {
+      clearTimers();
+      const [segment, ...rest] = segments;
+      rest.forEach(discardSegment);
+      segments = segment ? [segment] : [];
+      if (!segment || segment.recorder.state === "inactive") {
+        releaseTracks();
+        resolve(toBlob(segment));
+        return;
+      }
+      segment.recorder.onstop = () => {
+        releaseTracks();
+        resolve(toBlob(segment));
+      };
+      segment.recorder.stop();
+    });
+
+  // 가장 오래된 세그먼트가 가장 긴 구간을 담고 있음
+  const snapshot = () =>
+    new Promise<Blob>((resolve) => {
+      const segment = segments[0];
+      if (segment?.recorder.state !== "recording") {
+        resolve(toBlob(segment));
+        return;
+      }
+      segment.waiting.push(() => resolve(toBlob(segment)));
+      segment.recorder.requestData();
+    });
+
+  const cancel = () => {
+    clearTimers();
+    segments.forEach(discardSegment);
+    segments = [];
+    releaseTracks();
+  };
+
+  startSegment();
+  if (mode === "clip") {
+    autoStopTimer = setTimeout(() => {
+      stop().then((clip) => onAutoStop?.(clip));
+    }, maxDuration * 1000);
+  } else {
+    rotateTimer = setInterval(rotate, bufferDuration * 1000);
+  }
+
+  return { mode, startedAt: Date.now(), stop, snapshot, cancel };
+}
+
+export function getClipFileName(prefix: string, date = new Date()) {
+  const stamp = date.toISOString().replace(/[:.]/g, "-").slice(0, 19);
+  return `${prefix}-clip-${stamp}.webm`;
+}
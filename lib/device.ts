@@ -0,0 +1,31 @@
+export type DeviceType = "mobile" | "desktop";
+
+export function isIOS(): boolean {
+  return (
+    /iPad|iPhone|iPod/.test(navigator.userAgent) ||
+    // iPadOS 13+는 데스크톱 Safari UA를 사용
+    (navigator.platform === "MacIntel" && navigator.maxTouchPoints > 1)
+  );
+}
+
+export function getDeviceType(): DeviceType {
+  // iOS (iPhone, iPad 등)
+  if (isIOS()) {
+    return "mobile";
+  }
+
+  // 안드로이드 및 기타 모바일 브라우저
+  const ua = navigator.userAgent.toLowerCase();
+  const isMobileUA = /android|webos|blackberry|iemobile|opera mini/.test(ua);
+
+  if (isMobileUA) {
+    return "mobile";
+  }
+
+  // 폴백: 화면 크기로 판단 (폭이 좁으면 모바일로 간주)
+  if (window.innerWidth <= 768) {
+    return "mobile";
+  }
+
+  return "desktop";
+}
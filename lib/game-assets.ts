@@ -0,0 +1,190 @@
+import { createHash } from "node:crypto";
+import { createReadStream } from "node:fs";
+import { open, stat } from "node:fs/promises";
+import path from "node:path";
+import { Readable } from "node:stream";
+import { createBrotliDecompress, createGunzip } from "node:zlib";
+import {
+  COMPRESSION_SNIFF_BYTES,
+  detectUnityCompression,
+  stripCompressionSuffix,
+  type UnityCompression,
+} from "@/lib/unity/compression";
+
+/**
+ * `/game/**` 정적 에셋을 서빙하기 위한 서버 전용 헬퍼.
+ * Unity 압축 빌드에 Content-Encoding 을 붙이고 ETag/Range 를 처리합니다.
+ */
+const GAMES_DIR = path.join(process.cwd(), "public", "game");
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".wasm": "application/wasm",
+  ".js": "application/javascript; charset=utf-8",
+  ".data": "application/octet-stream",
+  ".json": "application/json; charset=utf-8",
+  ".html": "text/html; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".txt": "text/plain; charset=utf-8",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".webp": "image/webp",
+  ".ico": "image/x-icon",
+  ".svg": "image/svg+xml",
+  ".mp3": "audio/mpeg",
+  ".ogg": "audio/ogg",
+  ".wav": "audio/wav",
+  ".mp4": "video/mp4",
+  ".webm": "video/webm",
+};
+
+const CONTENT_ENCODINGS: Record<UnityCompression, string | null> = {
+  gzip: "gzip",
+  brotli: "br",
+  none: null,
+};
+
+export interface GameAsset {
+  filePath: string;
+  size: number;
+  etag: string;
+  contentType: string;
+  contentEncoding: string | null;
+  /** 압축 해제 후 크기. 압축되지 않은 파일이면 null */
+  decodedSize: number | null;
+  /** versions/<version>/ 아래 파일은 내용이 바뀌지 않으므로 오래 캐시 */
+  immutable: boolean;
+}
+
+// 경로별로 해시, 압축 판별 결과와 압축 해제 크기를 보관. 크기나 수정 시각이 바뀌면 다시 계산
+const assetCache = new Map<
+  string,
+  { size: number; mtimeMs: number; asset: GameAsset }
+>();
+
+/**
+ * `/game/` 이후 경로 조각을 public/game 안의 파일 경로로 변환. 밖으로 벗어나면 null
+ */
+export function resolveGameAssetPath(segments: string[]) {
+  const filePath = path.resolve(GAMES_DIR, ...segments);
+  return filePath.startsWith(`${GAMES_DIR}${path.sep}`) ? filePath : null;
+}
+
+function getContentType(fileName: string) {
+  const name = stripCompressionSuffix(fileName).toLowerCase();
+  const match = Object.keys(CONTENT_TYPES).find((ext) => name.endsWith(ext));
+  return match ? CONTENT_TYPES[match] : "application/octet-stream";
+}
+
+async function readHead(filePath: string) {
+  const file = await open(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(COMPRESSION_SNIFF_BYTES);
+    const { bytesRead } = await file.read(buffer, 0, buffer.length, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await file.close();
+  }
+}
+
+function hashFile(filePath: string) {
+  return new Promise<string>((resolve, reject) => {
+    const hash = createHash("sha1");
+    createReadStream(filePath)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("error", reject)
+      .on("end", () => resolve(hash.digest("base64url")));
+  });
+}
+
+function measureDecodedSize(filePath: string, compression: UnityCompression) {
+  return new Promise<number>((resolve, reject) => {
+    let size = 0;
+    createReadStream(filePath)
+      .on("error", reject)
+      .pipe(compression === "gzip" ? createGunzip() : createBrotliDecompress())
+      .on("data", (chunk: Buffer) => {
+        size += chunk.byteLength;
+      })
+      .on("error", reject)
+      .on("end", () => resolve(size));
+  });
+}
+
+/**
+ * 파일이 없거나 디렉터리면 null
+ */
+export async function getGameAsset(filePath: string) {
+  const stats = await stat(filePath).catch(() => null);
+  if (!stats?.isFile()) return null;
+
+  const cached = assetCache.get(filePath);
+  if (
+    cached &&
+    cached.size === stats.size &&
+    cached.mtimeMs === stats.mtimeMs
+  ) {
+    return cached.asset;
+  }
+
+  const fileName = path.basename(filePath);
+  const compression = detectUnityCompression(
+    fileName,
+    await readHead(filePath)
+  );
+  const asset: GameAsset = {
+    filePath,
+    size: stats.size,
+    etag: `"${await hashFile(filePath)}"`,
+    contentType: getContentType(fileName),
+    contentEncoding: CONTENT_ENCODINGS[compression],
+    decodedSize:
+      compression === "none"
+        ? null
+        : await measureDecodedSize(filePath, compression),
+    immutable:
+      path.relative(GAMES_DIR, filePath).split(path.sep)[1] === "versions",
+  };
+  assetCache.set(filePath, {
+    size: stats.size,
+    mtimeMs: stats.mtimeMs,
+    asset,
+  });
+  return asset;
+}
+
+export type ByteRange = { start: number; end: number };
+
+/**
+ * `Range: bytes=...` 해석. 단일 범위만 지원하고, 여러 범위나 잘못된 형식(끝이 시작보다
+ * 앞서는 범위 포함)은 무시(전체 응답)하며, 만족할 수 없는 범위면 "unsatisfiable"
+ */
+export function parseRangeHeader(
+  header: string | null,
+  size: number
+): ByteRange | "unsatisfiable" | null {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (match[1] === "" && match[2] === "")) return null;
+
+  let start: number;
+  let end: number;
+  if (match[1] === "") {
+    // bytes=-500: 마지막 500바이트
+    const suffix = Number(match[2]);
+    if (suffix === 0) return "unsatisfiable";
+    start = Math.max(0, size - suffix);
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    if (match[2] !== "" && Number(match[2]) < start) return null;
+    end = match[2] === "" ? size - 1 : Math.min(Number(match[2]), size - 1);
+  }
+  if (start >= size) return "unsatisfiable";
+  return { start, end };
+}
+
+export function createAssetStream(asset: GameAsset, range?: ByteRange) {
+  return Readable.toWeb(
+    createReadStream(asset.filePath, range)
+  ) as ReadableStream<Uint8Array>;
+}
@@ -0,0 +1,472 @@
+import type { GameSettingDefinition } from "@/lib/game-settings";
+import { parseAspectRatio } from "@/lib/unity/layout";
+import type { GameOrientation, ScaleMode } from "@/lib/unity/layout";
+import type { BackgroundBehavior } from "@/lib/unity/types";
+import type {
+  ButtonBinding,
+  JoystickBinding,
+  VirtualButtonConfig,
+  VirtualControlsConfig,
+  VirtualJoystickConfig,
+} from "@/lib/virtual-controls";
+
+/** 로케일 코드별 문자열. 기본 로케일(ko) 값은 필수 */
+export type LocalizedText = Record<string, string>;
+
+const DEFAULT_TEXT_LOCALE = "ko";
+
+export type BuildChannel = "stable" | "beta" | "dev";
+
+export interface GameBuild {
+  /** `?build=` 로 고르는 식별자. 보통 버전 문자열 */
+  id: string;
+  channel: BuildChannel;
+  /** Build/, StreamingAssets/ 를 담은 폴더의 사이트 루트 기준 경로 */
+  buildUrl: string;
+  buildFolder: string;
+  buildName: string;
+}
+
+export interface GameInfo {
+  id: string;
+  title: LocalizedText;
+  description: LocalizedText;
+  tags: string[];
+  /** 사이트 루트 기준 경로 */
+  thumbnail?: string;
+  /** 매니페스트에 적힌 순서(보통 최신순) */
+  builds: GameBuild[];
+  /** 쿼리로 고르지 않았을 때 사용할 빌드 id */
+  defaultBuild: string;
+  backgroundBehavior?: BackgroundBehavior;
+  /** 게임 화면 비율 ("16:9", "9:16", "1:1" 등). 기본값 16:9 */
+  aspectRatio?: string;
+  /** 전체화면에서 선호하는 방향. 기본값 landscape */
+  orientation?: GameOrientation;
+  /** 컨테이너와 비율이 다를 때의 배치 방식. 기본값 letterbox */
+  scaleMode?: ScaleMode;
+  /** 게임의 프레임 상한. 적응형 해상도가 이 값을 기준으로 품질을 조절. 기본값 60 */
+  targetFrameRate?: number;
+  /** 스크린샷 기능 사용 여부. WebGL preserveDrawingBuffer 를 켜 렌더링 비용이 늘어나므로 기본값 false */
+  screenshots?: boolean;
+  /** 플레이어 설정 패널 항목. Unity SettingsManager 가 지원하는 키만 선언 */
+  settings?: GameSettingDefinition[];
+  /** 터치 기기/전체화면에서 보여줄 가상 컨트롤. 없으면 표시하지 않음 */
+  virtualControls?: VirtualControlsConfig;
+}
+
+export function getLocalizedText(text: LocalizedText, locale: string) {
+  return text[locale] ?? text[DEFAULT_TEXT_LOCALE] ?? Object.values(text)[0];
+}
+
+const GAME_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const ORIENTATIONS: GameOrientation[] = ["landscape", "portrait", "any"];
+const SCALE_MODES: ScaleMode[] = ["letterbox", "stretch", "fill"];
+const BUILD_CHANNELS: BuildChannel[] = ["stable", "beta", "dev"];
+const BACKGROUND_BEHAVIORS: BackgroundBehavior[] = [
+  "pause",
+  "throttle",
+  "none",
+];
+const JOYSTICK_SIDES: VirtualJoystickConfig["side"][] = ["left", "right"];
+
+type ManifestObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is ManifestObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readLocalizedText(manifest: ManifestObject, key: string) {
+  const value = manifest[key];
+  if (typeof value === "string") return { [DEFAULT_TEXT_LOCALE]: value };
+  if (
+    !isObject(value) ||
+    !Object.values(value).every((text) => typeof text === "string")
+  ) {
+    throw new Error(`"${key}" must be a string or a locale → string map`);
+  }
+  if (!value[DEFAULT_TEXT_LOCALE]) {
+    throw new Error(`"${key}.${DEFAULT_TEXT_LOCALE}" is required`);
+  }
+  return value as LocalizedText;
+}
+
+function readEnum<T extends string>(
+  manifest: ManifestObject,
+  key: string,
+  allowed: T[]
+) {
+  const value = manifest[key];
+  if (value === undefined) return undefined;
+  if (!allowed.includes(value as T)) {
+    throw new Error(`"${key}" must be one of ${allowed.join(", ")}`);
+  }
+  return value as T;
+}
+
+function readBuild(value: unknown, index: number, gameUrl: string): GameBuild {
+  const label = `builds[${index}]`;
+  if (!isObject(value) || typeof value.name !== "string" || !value.name) {
+    throw new Error(`"${label}.name" is required`);
+  }
+  const { id, path, folder } = value;
+  if (id !== undefined && (typeof id !== "string" || !id)) {
+    throw new Error(`"${label}.id" must be a non-empty string`);
+  }
+  if (path !== undefined && typeof path !== "string") {
+    throw new Error(`"${label}.path" must be a string`);
+  }
+  if (folder !== undefined && typeof folder !== "string") {
+    throw new Error(`"${label}.folder" must be a string`);
+  }
+  const trimmedPath = (path ?? "").replace(/^\/+|\/+$/g, "");
+
+  return {
+    id: id ?? (trimmedPath || "default"),
+    channel: readEnum(value, "channel", BUILD_CHANNELS) ?? "stable",
+    buildUrl: trimmedPath ? `${gameUrl}/${trimmedPath}` : gameUrl,
+    buildFolder: folder ?? "Build",
+    buildName: value.name,
+  };
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value !== "";
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function readSetting(value: unknown, label: string): GameSettingDefinition {
+  if (!isObject(value) || !isNonEmptyString(value.key)) {
+    throw new Error(`"${label}.key" is required`);
+  }
+  if (value.label !== undefined && typeof value.label !== "string") {
+    throw new Error(`"${label}.label" must be a string`);
+  }
+  const base =
+    value.label === undefined
+      ? { key: value.key }
+      : { key: value.key, label: value.label as string };
+
+  switch (value.type) {
+    case "slider": {
+      const { min, max, step } = value;
+      if (
+        !isFiniteNumber(min) ||
+        !isFiniteNumber(max) ||
+        !isFiniteNumber(step) ||
+        min >= max ||
+        step <= 0
+      ) {
+        throw new Error(`"${label}" needs numeric min < max and step > 0`);
+      }
+      if (
+        !isFiniteNumber(value.default) ||
+        value.default < min ||
+        value.default > max
+      ) {
+        throw new Error(`"${label}.default" must be between min and max`);
+      }
+      return {
+        ...base,
+        type: "slider",
+        min,
+        max,
+        step,
+        default: value.default,
+      };
+    }
+    case "select": {
+      const { options } = value;
+      if (
+        !Array.isArray(options) ||
+        options.length === 0 ||
+        !options.every(
+          (option) =>
+            isObject(option) &&
+            isNonEmptyString(option.value) &&
+            (option.label === undefined || typeof option.label === "string")
+        )
+      ) {
+        throw new Error(`"${label}.options" must be a list of { value }`);
+      }
+      if (!options.some((option) => option.value === value.default)) {
+        throw new Error(`"${label}.default" must be one of the options`);
+      }
+      return {
+        ...base,
+        type: "select",
+        options: options as { value: string; label?: string }[],
+        default: value.default as string,
+      };
+    }
+    case "toggle":
+      if (typeof value.default !== "boolean") {
+        throw new Error(`"${label}.default" must be a boolean`);
+      }
+      return { ...base, type: "toggle", default: value.default };
+    default:
+      throw new Error(`"${label}.type" must be slider, select or toggle`);
+  }
+}
+
+/**
+ * 잘못된 항목은 warnings 에 기록하고 버림. 나머지 설정은 그대로 노출
+ */
+function readSettings(value: unknown[], warnings: string[]) {
+  const settings: GameSettingDefinition[] = [];
+  value.forEach((entry, index) => {
+    try {
+      const setting = readSetting(entry, `settings[${index}]`);
+      if (settings.some((item) => item.key === setting.key)) {
+        throw new Error(`Duplicate setting key "${setting.key}"`);
+      }
+      settings.push(setting);
+    } catch (settingError) {
+      warnings.push((settingError as Error).message);
+    }
+  });
+  return settings;
+}
+
+function readMessageBinding(binding: ManifestObject, label: string) {
+  if (!isNonEmptyString(binding.target) || !isNonEmptyString(binding.method)) {
+    throw new Error(`"${label}" needs target and method`);
+  }
+  return {
+    type: "message" as const,
+    target: binding.target,
+    method: binding.method,
+  };
+}
+
+function readJoystick(value: unknown): VirtualJoystickConfig {
+  if (!isObject(value) || !isObject(value.binding)) {
+    throw new Error(`"virtualControls.joystick.binding" is required`);
+  }
+  const side = value.side ?? "left";
+  if (!JOYSTICK_SIDES.includes(side as VirtualJoystickConfig["side"])) {
+    throw new Error(
+      `"virtualControls.joystick.side" must be one of ${JOYSTICK_SIDES.join(", ")}`
+    );
+  }
+  const { binding } = value;
+  const label = "virtualControls.joystick.binding";
+  let joystickBinding: JoystickBinding;
+  if (binding.type === "message") {
+    joystickBinding = readMessageBinding(binding, label);
+  } else if (binding.type === "keys") {
+    const { up, down, left, right } = binding;
+    if (![up, down, left, right].every(isNonEmptyString)) {
+      throw new Error(`"${label}" needs up, down, left and right key codes`);
+    }
+    joystickBinding = {
+      type: "keys",
+      up: up as string,
+      down: down as string,
+      left: left as string,
+      right: right as string,
+    };
+  } else {
+    throw new Error(`"${label}.type" must be message or keys`);
+  }
+  return {
+    side: side as VirtualJoystickConfig["side"],
+    binding: joystickBinding,
+  };
+}
+
+function readButton(value: unknown, label: string): VirtualButtonConfig {
+  if (!isObject(value) || !isNonEmptyString(value.id)) {
+    throw new Error(`"${label}.id" is required`);
+  }
+  if (typeof value.label !== "string") {
+    throw new Error(`"${label}.label" must be a string`);
+  }
+  const { binding } = value;
+  let buttonBinding: ButtonBinding;
+  if (isObject(binding) && binding.type === "message") {
+    buttonBinding = readMessageBinding(binding, `${label}.binding`);
+  } else if (isObject(binding) && binding.type === "key") {
+    if (!isNonEmptyString(binding.code)) {
+      throw new Error(`"${label}.binding.code" is required`);
+    }
+    buttonBinding = { type: "key", code: binding.code };
+  } else {
+    throw new Error(`"${label}.binding.type" must be message or key`);
+  }
+  return { id: value.id, label: value.label, binding: buttonBinding };
+}
+
+/**
+ * 잘못된 조이스틱/버튼은 warnings 에 기록하고 버림. 남는 게 없으면 undefined
+ */
+function readVirtualControls(
+  value: ManifestObject,
+  warnings: string[]
+): VirtualControlsConfig | undefined {
+  const controls: VirtualControlsConfig = {};
+  if (value.joystick !== undefined) {
+    try {
+      controls.joystick = readJoystick(value.joystick);
+    } catch (joystickError) {
+      warnings.push((joystickError as Error).message);
+    }
+  }
+  if (value.buttons !== undefined) {
+    if (!Array.isArray(value.buttons)) {
+      warnings.push(`"virtualControls.buttons" must be an array`);
+    } else {
+      const buttons: VirtualButtonConfig[] = [];
+      value.buttons.forEach((entry, index) => {
+        try {
+          const button = readButton(entry, `virtualControls.buttons[${index}]`);
+          if (buttons.some((item) => item.id === button.id)) {
+            throw new Error(`Duplicate virtual button id "${button.id}"`);
+          }
+          buttons.push(button);
+        } catch (buttonError) {
+          warnings.push((buttonError as Error).message);
+        }
+      });
+      if (buttons.length > 0) controls.buttons = buttons;
+    }
+  }
+  return controls.joystick || controls.buttons ? controls : undefined;
+}
+
+/**
+ * 롤백이 쉽도록 `defaultBuild` 로 고정한 빌드를 우선하고,
+ * 없으면 목록에서 첫 stable, 그것도 없으면 첫 빌드를 기본값으로 사용
+ */
+function readDefaultBuild(manifest: ManifestObject, builds: GameBuild[]) {
+  const { defaultBuild } = manifest;
+  if (defaultBuild !== undefined) {
+    if (!builds.some((build) => build.id === defaultBuild)) {
+      throw new Error(`"defaultBuild" must be one of the build ids`);
+    }
+    return defaultBuild as string;
+  }
+  return (builds.find((build) => build.channel === "stable") ?? builds[0]).id;
+}
+
+/**
+ * 빌드 선택. `?build=<id>` 가 `?channel=<channel>` 보다 우선하고,
+ * 맞는 빌드가 없으면 기본 빌드를 사용
+ */
+export function selectGameBuild(
+  game: GameInfo,
+  query: { build?: string; channel?: string } = {}
+): GameBuild {
+  const defaultBuild =
+    game.builds.find((build) => build.id === game.defaultBuild) ??
+    game.builds[0];
+  const byId = query.build
+    ? game.builds.find((build) => build.id === query.build)
+    : undefined;
+  // 기본 빌드가 요청한 채널이면 그대로 사용해 고정(롤백)한 버전을 유지
+  const byChannel =
+    query.channel && defaultBuild.channel !== query.channel
+      ? game.builds.find((build) => build.channel === query.channel)
+      : undefined;
+  return byId ?? byChannel ?? defaultBuild;
+}
+
+/**
+ * `public/game/<folder>/game.json` 매니페스트를 검증해 GameInfo 로 변환.
+ * settings/virtualControls 의 잘못된 항목은 게임 전체를 막지 않도록 버리고 warnings 에 남깁니다.
+ */
+export function parseGameManifest(
+  data: unknown,
+  folder: string,
+  warnings: string[] = []
+): GameInfo {
+  if (!isObject(data)) throw new Error("Manifest must be a JSON object");
+
+  const {
+    id,
+    tags,
+    thumbnail,
+    aspectRatio,
+    targetFrameRate,
+    screenshots,
+    settings,
+    virtualControls,
+  } = data;
+  if (typeof id !== "string" || !GAME_ID_PATTERN.test(id)) {
+    throw new Error(`"id" must match ${GAME_ID_PATTERN}`);
+  }
+  // 빌드가 하나뿐인 게임은 `build` 하나만 적어도 됨
+  const buildEntries = data.builds ?? (data.build ? [data.build] : undefined);
+  if (!Array.isArray(buildEntries) || buildEntries.length === 0) {
+    throw new Error(`"builds" must contain at least one build`);
+  }
+  if (
+    tags !== undefined &&
+    !(Array.isArray(tags) && tags.every((tag) => typeof tag === "string"))
+  ) {
+    throw new Error(`"tags" must be an array of strings`);
+  }
+  if (thumbnail !== undefined && typeof thumbnail !== "string") {
+    throw new Error(`"thumbnail" must be a string`);
+  }
+  if (
+    aspectRatio !== undefined &&
+    (typeof aspectRatio !== "string" || !parseAspectRatio(aspectRatio))
+  ) {
+    throw new Error(`"aspectRatio" must look like "16:9"`);
+  }
+  if (
+    targetFrameRate !== undefined &&
+    (!isFiniteNumber(targetFrameRate) || targetFrameRate <= 0)
+  ) {
+    throw new Error(`"targetFrameRate" must be a positive number`);
+  }
+  if (screenshots !== undefined && typeof screenshots !== "boolean") {
+    throw new Error(`"screenshots" must be a boolean`);
+  }
+  if (settings !== undefined && !Array.isArray(settings)) {
+    throw new Error(`"settings" must be an array`);
+  }
+  if (virtualControls !== undefined && !isObject(virtualControls)) {
+    throw new Error(`"virtualControls" must be an object`);
+  }
+
+  const gameUrl = `/game/${folder}`;
+  const builds = buildEntries.map((entry, index) =>
+    readBuild(entry, index, gameUrl)
+  );
+  const duplicate = builds.find(
+    (build, index) => builds.findIndex((item) => item.id === build.id) !== index
+  );
+  if (duplicate) throw new Error(`Duplicate build id "${duplicate.id}"`);
+
+  return {
+    id,
+    title: readLocalizedText(data, "title"),
+    description: readLocalizedText(data, "description"),
+    tags: (tags as string[] | undefined) ?? [],
+    // 상대 경로면 게임 폴더 기준
+    thumbnail:
+      thumbnail === undefined || thumbnail.startsWith("/")
+        ? thumbnail
+        : `${gameUrl}/${thumbnail}`,
+    builds,
+    defaultBuild: readDefaultBuild(data, builds),
+    backgroundBehavior: readEnum(
+      data,
+      "backgroundBehavior",
+      BACKGROUND_BEHAVIORS
+    ),
+    aspectRatio: aspectRatio as string | undefined,
+    orientation: readEnum(data, "orientation", ORIENTATIONS),
+    scaleMode: readEnum(data, "scaleMode", SCALE_MODES),
+    targetFrameRate: targetFrameRate as number | undefined,
+    screenshots,
+    settings: settings && readSettings(settings, warnings),
+    virtualControls:
+      virtualControls && readVirtualControls(virtualControls, warnings),
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * 게임별로 노출할 플레이어 설정 정의.
+ * 라벨은 `game.settings.fields.<key>` 메시지가 있으면 그것을, 없으면 `label`을 사용합니다.
+ */
+interface SettingBase {
+  key: string;
+  label?: string;
+}
+
+export interface SliderSetting extends SettingBase {
+  type: "slider";
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+}
+
+export interface SelectSetting extends SettingBase {
+  type: "select";
+  options: { value: string; label?: string }[];
+  default: string;
+}
+
+export interface ToggleSetting extends SettingBase {
+  type: "toggle";
+  default: boolean;
+}
+
+export type GameSettingDefinition =
+  SliderSetting | SelectSetting | ToggleSetting;
+
+export type GameSettingValue = number | string | boolean;
+export type GameSettingsValues = Record<string, GameSettingValue>;
+
+const STORAGE_PREFIX = "goduck:settings:";
+
+export function getDefaultSettings(
+  definitions: GameSettingDefinition[]
+): GameSettingsValues {
+  return Object.fromEntries(definitions.map((def) => [def.key, def.default]));
+}
+
+/**
+ * 저장된 값이 현재 정의와 맞지 않으면(범위 밖, 없는 옵션, 타입 변경) 기본값으로 대체
+ */
+export function normalizeSettingValue(
+  def: GameSettingDefinition,
+  value: unknown
+): GameSettingValue {
+  switch (def.type) {
+    case "slider":
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        return def.default;
+      }
+      return Math.min(def.max, Math.max(def.min, value));
+    case "select":
+      return def.options.some((option) => option.value === value)
+        ? (value as string)
+        : def.default;
+    case "toggle":
+      return typeof value === "boolean" ? value : def.default;
+  }
+}
+
+const cache = new Map<string, GameSettingsValues>();
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+function handleStorage(event: StorageEvent) {
+  // 다른 탭에서 바꾼 설정도 반영
+  if (event.key?.startsWith(STORAGE_PREFIX)) {
+    cache.delete(event.key.slice(STORAGE_PREFIX.length));
+    notify();
+  }
+}
+
+export function subscribeGameSettings(listener: () => void) {
+  if (listeners.size === 0) window.addEventListener("storage", handleStorage);
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      window.removeEventListener("storage", handleStorage);
+    }
+  };
+}
+
+/**
+ * 같은 값이면 같은 객체를 반환 (useSyncExternalStore 스냅샷용)
+ */
+export function readGameSettings(
+  gameId: string,
+  definitions: GameSettingDefinition[]
+): GameSettingsValues {
+  const cached = cache.get(gameId);
+  if (cached) return cached;
+
+  let stored: Record<string, unknown> = {};
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + gameId);
+    if (raw) stored = JSON.parse(raw);
+  } catch {
+    // 저장소 접근 불가(시크릿 모드 등)나 손상된 JSON 은 기본값 사용
+  }
+
+  const values = Object.fromEntries(
+    definitions.map((def) => [
+      def.key,
+      normalizeSettingValue(def, stored[def.key]),
+    ])
+  );
+  cache.set(gameId, values);
+  return values;
+}
+
+export function writeGameSettings(gameId: string, values: GameSettingsValues) {
+  cache.set(gameId, values);
+  try {
+    localStorage.setItem(STORAGE_PREFIX + gameId, JSON.stringify(values));
+  } catch (storageError) {
+    console.warn("[GameSettings] Failed to persist settings:", storageError);
+  }
+  notify();
+}
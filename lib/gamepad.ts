@@ -0,0 +1,150 @@
+/**
+ * W3C "standard" 매핑 기준 버튼 순서
+ * https://w3c.github.io/gamepad/#remapping
+ */
+export const STANDARD_BUTTONS = [
+  "a",
+  "b",
+  "x",
+  "y",
+  "leftBumper",
+  "rightBumper",
+  "leftTrigger",
+  "rightTrigger",
+  "back",
+  "start",
+  "leftStick",
+  "rightStick",
+  "dpadUp",
+  "dpadDown",
+  "dpadLeft",
+  "dpadRight",
+  "home",
+] as const;
+
+export type StandardButton = (typeof STANDARD_BUTTONS)[number];
+
+const STICK_DEADZONE = 0.15;
+
+export interface GamepadInfo {
+  index: number;
+  id: string;
+  /** 브라우저가 standard 매핑을 제공하지 않아 추정 매핑을 사용 중 */
+  remapped: boolean;
+}
+
+/**
+ * Unity 로 전달하는 정규화된 입력 상태.
+ * buttons 는 STANDARD_BUTTONS 순서의 0~1 값, axes 는 [leftX, leftY, rightX, rightY]
+ */
+export interface GamepadState {
+  index: number;
+  buttons: number[];
+  axes: [number, number, number, number];
+}
+
+function round(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function applyDeadzone(value: number | undefined) {
+  if (value === undefined || Math.abs(value) < STICK_DEADZONE) return 0;
+  // 데드존 바깥 구간을 다시 0~1 로 펼침
+  const scaled = (Math.abs(value) - STICK_DEADZONE) / (1 - STICK_DEADZONE);
+  return round(Math.sign(value) * Math.min(1, scaled));
+}
+
+// 트리거가 -1(뗌)~1(누름) 축으로 보고되는 경우
+function axisToTrigger(value: number | undefined) {
+  return value === undefined ? 0 : round((value + 1) / 2);
+}
+
+function normalizeStandard(gamepad: Gamepad): GamepadState {
+  return {
+    index: gamepad.index,
+    buttons: STANDARD_BUTTONS.map((_, i) =>
+      round(gamepad.buttons[i]?.value ?? 0)
+    ),
+    axes: [
+      applyDeadzone(gamepad.axes[0]),
+      applyDeadzone(gamepad.axes[1]),
+      applyDeadzone(gamepad.axes[2]),
+      applyDeadzone(gamepad.axes[3]),
+    ],
+  };
+}
+
+/**
+ * standard 매핑이 없는 경우(Linux/macOS Firefox 의 XInput 계열 패드 등)의 추정 매핑.
+ * 축 6개: [LX, LY, LT, RX, RY, RT], 방향키는 버튼이 아니라 축 6/7 로 들어옴
+ */
+function normalizeFallback(gamepad: Gamepad): GamepadState {
+  const { axes } = gamepad;
+  const pressed = (i: number) => round(gamepad.buttons[i]?.value ?? 0);
+
+  if (axes.length < 6) {
+    return normalizeStandard(gamepad);
+  }
+
+  const dpadX = axes[6] ?? 0;
+  const dpadY = axes[7] ?? 0;
+  return {
+    index: gamepad.index,
+    buttons: [
+      pressed(0),
+      pressed(1),
+      pressed(2),
+      pressed(3),
+      pressed(4),
+      pressed(5),
+      axisToTrigger(axes[2]),
+      axisToTrigger(axes[5]),
+      pressed(6),
+      pressed(7),
+      pressed(9),
+      pressed(10),
+      dpadY < -0.5 ? 1 : 0,
+      dpadY > 0.5 ? 1 : 0,
+      dpadX < -0.5 ? 1 : 0,
+      dpadX > 0.5 ? 1 : 0,
+      pressed(8),
+    ],
+    axes: [
+      applyDeadzone(axes[0]),
+      applyDeadzone(axes[1]),
+      applyDeadzone(axes[3]),
+      applyDeadzone(axes[4]),
+    ],
+  };
+}
+
+export function getGamepadInfo(gamepad: Gamepad): GamepadInfo {
+  return {
+    index: gamepad.index,
+    id: gamepad.id,
+    remapped: gamepad.mapping !== "standard",
+  };
+}
+
+export function normalizeGamepad(gamepad: Gamepad): GamepadState {
+  return gamepad.mapping === "standard"
+    ? normalizeStandard(gamepad)
+    : normalizeFallback(gamepad);
+}
+
+export function isSameGamepadState(a: GamepadState, b: GamepadState) {
+  return (
+    a.buttons.every((value, i) => value === b.buttons[i]) &&
+    a.axes.every((value, i) => value === b.axes[i])
+  );
+}
+
+/**
+ * 연결된 패드 목록. 일부 브라우저는 빈 슬롯을 null 로 채워서 반환
+ */
+export function getConnectedGamepads(): Gamepad[] {
+  if (typeof navigator === "undefined" || !navigator.getGamepads) return [];
+  return navigator
+    .getGamepads()
+    .filter((gamepad): gamepad is Gamepad => !!gamepad?.connected);
+}
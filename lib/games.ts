@@ -1,25 +1,81 @@
-export interface GameInfo {
-  id: string;
-  title: string;
-  description: string;
-  thumbnail?: string;
-  buildUrl: string;
-  buildFolder: string;
-  buildName: string;
+import { existsSync, readdirSync, readFileSync, statSync } from "node:fs";
+import path from "node:path";
+import { parseGameManifest, type GameInfo } from "@/lib/game-manifest";
+
+export type { GameInfo, LocalizedText } from "@/lib/game-manifest";
+
+/**
+ * 서버 전용 게임 카탈로그. `public/game/<folder>/game.json` 을 찾아 검증합니다.
+ * 읽은 결과는 게임 폴더 목록과 매니페스트 수정 시각이 바뀔 때까지 재사용하므로
+ * 재배포 없이 빌드를 가져와도(`yarn import-build`) 다음 요청부터 반영됩니다.
+ */
+const GAMES_DIR = path.join(process.cwd(), "public", "game");
+const MANIFEST_FILE = "game.json";
+
+let cache: { signature: string; games: GameInfo[] } | null = null;
+
+function listGameFolders() {
+  if (!existsSync(GAMES_DIR)) return [];
+  return readdirSync(GAMES_DIR, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .sort();
+}
+
+// 폴더별 매니페스트 수정 시각. 매니페스트가 없는 폴더도 포함해 추가/삭제를 감지
+function getCatalogSignature(folders: string[]) {
+  return folders
+    .map((folder) => {
+      const manifestPath = path.join(GAMES_DIR, folder, MANIFEST_FILE);
+      const mtimeMs = statSync(manifestPath, {
+        throwIfNoEntry: false,
+      })?.mtimeMs;
+      return `${folder}:${mtimeMs ?? "-"}`;
+    })
+    .join("|");
 }
 
-export const games: GameInfo[] = [
-  {
-    id: "goduck",
-    title: "GODUCK",
-    description: "Unity로 개발된 GODUCK 게임",
-    buildUrl: "/game/GODUCK",
-    buildFolder: "Build",
-    buildName: "GODUCK",
-  },
-];
+function loadGames(folders: string[]): GameInfo[] {
+  const loaded: GameInfo[] = [];
+  for (const folder of folders) {
+    const manifestPath = path.join(GAMES_DIR, folder, MANIFEST_FILE);
+    if (!existsSync(manifestPath)) continue;
+    try {
+      const warnings: string[] = [];
+      const game = parseGameManifest(
+        JSON.parse(readFileSync(manifestPath, "utf8")),
+        folder,
+        warnings
+      );
+      warnings.forEach((warning) =>
+        console.warn(
+          `[GameCatalog] public/game/${folder}/${MANIFEST_FILE}: ignoring ${warning}`
+        )
+      );
+      if (loaded.some((item) => item.id === game.id)) {
+        throw new Error(`Duplicate game id "${game.id}"`);
+      }
+      loaded.push(game);
+    } catch (manifestError) {
+      // 잘못된 매니페스트 하나 때문에 카탈로그 전체가 깨지지 않도록 건너뜀
+      console.warn(
+        `[GameCatalog] Skipping public/game/${folder}/${MANIFEST_FILE}:`,
+        manifestError instanceof Error ? manifestError.message : manifestError
+      );
+    }
+  }
+  return loaded;
+}
 
-export function getGameById(id: string): GameInfo | undefined {
-  return games.find((game) => game.id === id);
+export function getGames(): GameInfo[] {
+  const folders = listGameFolders();
+  const signature = getCatalogSignature(folders);
+  if (cache?.signature !== signature) {
+    cache = { signature, games: loadGames(folders) };
+  }
+  return cache.games;
 }
 
+export function getGameById(id: string): GameInfo | undefined {
+  return getGames().find((game) => game.id === id);
+}
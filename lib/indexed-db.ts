@@ -0,0 +1,20 @@
+/**
+ * IndexedDB 콜백 API 를 Promise 로 감싸는 헬퍼 (스크린샷 DB, Unity IDBFS 공용)
+ */
+export function requestToPromise<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * 트랜잭션이 커밋되면 resolve, 오류나 중단이면 reject
+ */
+export function transactionToPromise(transaction: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
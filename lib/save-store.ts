@@ -0,0 +1,61 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * `/api/saves` 용 파일 기반 저장소. 기기 식별자별로 게임 아카이브 JSON 하나를
+ * `.data/saves/<gameId>/` 에 보관합니다.
+ */
+const SAVE_DIR = path.join(process.cwd(), ".data", "saves");
+// base64 로 부풀려진 IDBFS 아카이브 기준
+export const MAX_SAVE_ARCHIVE_BYTES = 10 * 1024 * 1024;
+
+const GAME_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+// 클라이언트가 crypto.randomUUID() 로 만든 값
+const DEVICE_ID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isValidSaveGameId(gameId: string) {
+  return GAME_ID_PATTERN.test(gameId);
+}
+
+export function isValidDeviceId(deviceId: string | null): deviceId is string {
+  return deviceId !== null && DEVICE_ID_PATTERN.test(deviceId);
+}
+
+function getSavePath(gameId: string, deviceId: string) {
+  if (!isValidSaveGameId(gameId)) {
+    throw new Error(`Invalid game id: ${gameId}`);
+  }
+  if (!isValidDeviceId(deviceId)) throw new Error("Invalid device id");
+  // 식별자는 백업을 여는 비밀값이므로 파일 이름에는 해시만 남김
+  const key = createHash("sha256")
+    .update(deviceId.toLowerCase())
+    .digest("base64url");
+  return path.join(SAVE_DIR, gameId, `${key}.json`);
+}
+
+/**
+ * 저장된 아카이브 원문. 없으면 null
+ */
+export async function readSaveArchive(gameId: string, deviceId: string) {
+  try {
+    return await readFile(getSavePath(gameId, deviceId), "utf8");
+  } catch (readError) {
+    if ((readError as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw readError;
+  }
+}
+
+export async function writeSaveArchive(
+  gameId: string,
+  deviceId: string,
+  body: string
+) {
+  const target = getSavePath(gameId, deviceId);
+  await mkdir(path.dirname(target), { recursive: true });
+  // 쓰는 도중 실패해도 이전 백업이 깨지지 않도록 임시 파일 후 교체
+  const temp = `${target}.${process.pid}.${Date.now()}.tmp`;
+  await writeFile(temp, body, "utf8");
+  await rename(temp, target);
+}
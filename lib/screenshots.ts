@@ -0,0 +1,102 @@
+import { requestToPromise, transactionToPromise } from "@/lib/indexed-db";
+
+const DB_NAME = "goduck-screenshots";
+const DB_VERSION = 1;
+const STORE = "screenshots";
+// 게임별로 보관하는 최대 스크린샷 수
+export const MAX_SCREENSHOTS = 12;
+
+export interface Screenshot {
+  id: number;
+  gameId: string;
+  createdAt: number;
+  width: number;
+  height: number;
+  blob: Blob;
+}
+
+function openDatabase() {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const store = request.result.createObjectStore(STORE, {
+      keyPath: "id",
+      autoIncrement: true,
+    });
+    store.createIndex("gameId", "gameId");
+  };
+  return requestToPromise(request);
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => Promise<T>
+) {
+  const db = await openDatabase();
+  try {
+    const transaction = db.transaction(STORE, mode);
+    const done = transactionToPromise(transaction);
+    const result = await run(transaction.objectStore(STORE));
+    await done;
+    return result;
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * 캔버스 현재 프레임을 PNG 로 캡처. WebGL 캔버스는 preserveDrawingBuffer 가 켜져 있어야 함
+ */
+export function captureCanvas(canvas: HTMLCanvasElement) {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) resolve(blob);
+      else reject(new Error("Failed to capture canvas"));
+    }, "image/png");
+  });
+}
+
+export function listScreenshots(gameId: string) {
+  return withStore("readonly", async (store) => {
+    const shots = await requestToPromise<Screenshot[]>(
+      store.index("gameId").getAll(gameId)
+    );
+    return shots.sort((a, b) => b.createdAt - a.createdAt);
+  });
+}
+
+/**
+ * 스크린샷을 저장하고 게임별 보관 개수를 넘는 오래된 항목은 삭제
+ */
+export function saveScreenshot(
+  gameId: string,
+  blob: Blob,
+  size: { width: number; height: number }
+) {
+  return withStore("readwrite", async (store) => {
+    const record = { gameId, createdAt: Date.now(), ...size, blob };
+    const id = (await requestToPromise(store.add(record))) as number;
+
+    const keys = (await requestToPromise(
+      store.index("gameId").getAllKeys(gameId)
+    )) as number[];
+    // autoIncrement 키는 저장 순서와 같으므로 작은 키부터 삭제
+    const stale = keys.sort((a, b) => a - b).slice(0, -MAX_SCREENSHOTS);
+    stale.forEach((key) => store.delete(key));
+
+    return { id, ...record } as Screenshot;
+  });
+}
+
+export function deleteScreenshot(id: number) {
+  return withStore("readwrite", async (store) => {
+    await requestToPromise(store.delete(id));
+  });
+}
+
+export function getScreenshotFileName(gameId: string, shot: Screenshot) {
+  const stamp = new Date(shot.createdAt)
+    .toISOString()
+    .replace(/[:.]/g, "-")
+    .slice(0, 19);
+  return `${gameId}-${stamp}.png`;
+}
@@ -0,0 +1,116 @@
+/**
+ * Unity WebGL 오디오는 프레임워크 내부 AudioContext 에서 바로 destination 으로 연결되어
+ * 밖에서 스트림을 얻을 방법이 없습니다. 설치된 동안 새로 만들어지는 AudioContext 를
+ * Unity 의 것으로 기록하고, 그 컨텍스트에서 destination 으로 가는 연결만
+ * MediaStreamAudioDestinationNode 에도 복제합니다.
+ * Unity 가 AudioContext 를 만들기 전에(인스턴스 생성 전) 설치하고, 게임을 떠날 때 해제해야 합니다.
+ */
+
+type ConnectFunction = (
+  this: AudioNode,
+  destination: AudioNode | AudioParam,
+  ...rest: number[]
+) => AudioNode | void;
+
+interface AudioContextConstructors {
+  AudioContext?: typeof AudioContext;
+  webkitAudioContext?: typeof AudioContext;
+}
+
+const taps = new WeakMap<BaseAudioContext, MediaStreamAudioDestinationNode>();
+const tappedContexts = new WeakSet<BaseAudioContext>();
+let latestTap: MediaStreamAudioDestinationNode | null = null;
+let installCount = 0;
+let uninstall: (() => void) | null = null;
+
+function getTap(context: BaseAudioContext) {
+  let tap = taps.get(context);
+  if (!tap && "createMediaStreamDestination" in context) {
+    tap = (context as AudioContext).createMediaStreamDestination();
+    taps.set(context, tap);
+  }
+  if (tap) latestTap = tap;
+  return tap;
+}
+
+// 생성자를 감싼 하위 클래스로 바꿔 Unity 가 만드는 컨텍스트를 기록
+function wrapAudioContext(
+  key: keyof AudioContextConstructors
+): (() => void) | null {
+  const audioWindow = window as unknown as AudioContextConstructors;
+  const Original = audioWindow[key];
+  if (!Original) return null;
+
+  const Tracked = class extends Original {
+    constructor(...args: ConstructorParameters<typeof AudioContext>) {
+      super(...args);
+      tappedContexts.add(this as unknown as AudioContext);
+    }
+  };
+  audioWindow[key] = Tracked;
+  return () => {
+    // 다른 코드가 그 사이 다시 감쌌다면 체인을 깨지 않도록 그대로 둠
+    if (audioWindow[key] === Tracked) audioWindow[key] = Original;
+  };
+}
+
+function patchConnect() {
+  const connect = AudioNode.prototype.connect as ConnectFunction;
+  const tappedConnect = function (
+    this: AudioNode,
+    destination: AudioNode | AudioParam,
+    ...rest: number[]
+  ) {
+    if (
+      destination instanceof AudioDestinationNode &&
+      tappedContexts.has(destination.context)
+    ) {
+      const tap = getTap(destination.context);
+      if (tap) connect.call(this, tap, ...rest);
+    }
+    return connect.call(this, destination, ...rest);
+  } as typeof AudioNode.prototype.connect;
+
+  AudioNode.prototype.connect = tappedConnect;
+  return () => {
+    if (AudioNode.prototype.connect === tappedConnect) {
+      AudioNode.prototype.connect = connect as typeof tappedConnect;
+    }
+  };
+}
+
+/**
+ * 오디오 탭을 설치하고 해제 함수를 반환. 여러 곳에서 설치해도 마지막 해제 때 원래대로 복구
+ */
+export function installAudioTap(): () => void {
+  if (typeof AudioNode === "undefined") return () => {};
+
+  installCount += 1;
+  if (installCount === 1) {
+    const restores = [
+      wrapAudioContext("AudioContext"),
+      wrapAudioContext("webkitAudioContext"),
+      patchConnect(),
+    ];
+    uninstall = () => restores.forEach((restore) => restore?.());
+  }
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    installCount -= 1;
+    if (installCount === 0) {
+      uninstall?.();
+      uninstall = null;
+      latestTap = null;
+    }
+  };
+}
+
+/**
+ * 가장 최근에 destination 으로 연결된 Unity AudioContext 의 출력 스트림
+ */
+export function getAudioTapStream(): MediaStream | null {
+  return latestTap?.stream ?? null;
+}
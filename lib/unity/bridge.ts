@@ -0,0 +1,223 @@
+import type { GameSettingValue, GameSettingsValues } from "@/lib/game-settings";
+import type { GamepadInfo, GamepadState } from "@/lib/gamepad";
+import type { DeviceCapabilities } from "./capabilities";
+import type { UnityInstance } from "./types";
+
+/**
+ * JS → Unity 메시지 레지스트리.
+ * 키는 Unity 씬의 GameObject 이름, 값은 public 메서드 이름과 payload 타입입니다.
+ * 게임별 타깃은 declaration merging으로 추가할 수 있습니다.
+ *
+ * ```ts
+ * declare module "@/lib/unity/bridge" {
+ *   interface UnityMessageMap {
+ *     ScoreBoard: { Show: { top: number } };
+ *   }
+ * }
+ * ```
+ */
+export interface UnityMessageMap {
+  DeviceManager: {
+    SetDeviceType: "mobile" | "desktop";
+    SetCapabilities: DeviceCapabilities;
+  };
+  GameManager: {
+    SetPaused: boolean;
+    /** -1이면 Unity 기본 프레임레이트로 복귀 */
+    SetTargetFrameRate: number;
+  };
+  AudioManager: {
+    SetMuted: boolean;
+  };
+  InputManager: {
+    GamepadConnected: GamepadInfo;
+    GamepadDisconnected: { index: number };
+    /** 상태가 바뀐 프레임에만 전송 */
+    SetGamepadState: GamepadState;
+  };
+  SettingsManager: {
+    /** 인스턴스 시작 시 저장된 설정 전체 */
+    ApplySettings: GameSettingsValues;
+    SetSetting: { key: string; value: GameSettingValue };
+  };
+  SaveManager: {
+    /** PlayerPrefs.Save() 등 메모리에 있는 세이브를 persistentDataPath 에 기록 */
+    Flush: undefined;
+  };
+  LocalizationManager: {
+    /** 언어 코드 ("ko", "en"). 게임 설정에서 고른 언어가 없으면 사이트 로케일 */
+    SetLanguage: string;
+  };
+}
+
+/**
+ * Unity → JS 이벤트 레지스트리. 값은 이벤트 payload 타입입니다.
+ * `.jslib` 플러그인에서는 다음과 같이 호출합니다.
+ *
+ * ```js
+ * window.unityBridge.emit("levelCompleted", JSON.stringify({ level: 3, score: 1200 }));
+ * ```
+ */
+export interface UnityEventMap {
+  levelCompleted: { level: number; score: number };
+  requestPause: undefined;
+  /** 시작 시 `Application.persistentDataPath`. 세이브 관리는 이 폴더만 다룸 */
+  savePathReady: { path: string };
+}
+
+export type UnityTarget = keyof UnityMessageMap;
+export type UnityMethod<T extends UnityTarget> = keyof UnityMessageMap[T] &
+  string;
+export type UnityPayload<
+  T extends UnityTarget,
+  M extends UnityMethod<T>,
+> = UnityMessageMap[T][M];
+
+export type UnityEventName = keyof UnityEventMap;
+export type UnityEventHandler<E extends UnityEventName> = (
+  payload: UnityEventMap[E]
+) => void;
+
+interface UnityBridgeCallbacks {
+  emit: (eventName: string, payload?: string) => void;
+}
+
+declare global {
+  interface Window {
+    unityBridge?: UnityBridgeCallbacks;
+  }
+}
+
+// 문자열/숫자는 그대로, 그 외 값은 JSON 문자열로 전달 (Unity 쪽에서 JsonUtility로 파싱)
+function serializePayload(payload: unknown): string | number | undefined {
+  if (payload === undefined) return undefined;
+  if (typeof payload === "string" || typeof payload === "number") {
+    return payload;
+  }
+  return JSON.stringify(payload);
+}
+
+export function sendUnityMessage<
+  T extends UnityTarget,
+  M extends UnityMethod<T>,
+>(
+  instance: UnityInstance,
+  target: T,
+  method: M,
+  ...payload: UnityPayload<T, M> extends undefined ? [] : [UnityPayload<T, M>]
+): void {
+  sendDynamicUnityMessage(instance, target, method, payload[0]);
+}
+
+/**
+ * 게임 카탈로그처럼 데이터로 정의된 타깃/메서드로 보낼 때 사용.
+ * 코드에서 직접 보내는 메시지는 타입이 검사되는 `sendUnityMessage`를 사용하세요.
+ */
+export function sendDynamicUnityMessage(
+  instance: UnityInstance,
+  target: string,
+  method: string,
+  payload?: unknown
+): void {
+  const value = serializePayload(payload);
+  if (value === undefined) {
+    instance.SendMessage(target, method);
+  } else {
+    instance.SendMessage(target, method, value);
+  }
+}
+
+/**
+ * `sendUnityMessage`와 같지만, 게임에 해당 오브젝트나 메서드가 없어 실패해도 던지지 않고
+ * 경고만 남김. 게임이 선택적으로 구현하는 매니저(입력, 설정 등)로 보낼 때 사용합니다.
+ */
+export function trySendUnityMessage<
+  T extends UnityTarget,
+  M extends UnityMethod<T>,
+>(
+  instance: UnityInstance,
+  target: T,
+  method: M,
+  ...payload: UnityPayload<T, M> extends undefined ? [] : [UnityPayload<T, M>]
+): boolean {
+  return trySendDynamicUnityMessage(instance, target, method, payload[0]);
+}
+
+export function trySendDynamicUnityMessage(
+  instance: UnityInstance,
+  target: string,
+  method: string,
+  payload?: unknown
+): boolean {
+  try {
+    sendDynamicUnityMessage(instance, target, method, payload);
+    return true;
+  } catch (bridgeError) {
+    console.warn(
+      `[UnityBridge] Failed to send ${target}.${method} to Unity:`,
+      bridgeError
+    );
+    return false;
+  }
+}
+
+const listeners = new Map<string, Set<(payload: unknown) => void>>();
+
+function parseEventPayload(payload?: string): unknown {
+  if (payload === undefined || payload === "") return undefined;
+  try {
+    return JSON.parse(payload);
+  } catch {
+    // JSON이 아니면 원본 문자열 그대로 전달
+    return payload;
+  }
+}
+
+export function emitUnityEvent(eventName: string, payload?: string): void {
+  const handlers = listeners.get(eventName);
+  if (!handlers || handlers.size === 0) {
+    console.warn(`[UnityBridge] No listeners for Unity event "${eventName}"`);
+    return;
+  }
+
+  const value = parseEventPayload(payload);
+  handlers.forEach((handler) => {
+    try {
+      handler(value);
+    } catch (err) {
+      console.error(`[UnityBridge] Listener for "${eventName}" failed:`, err);
+    }
+  });
+}
+
+export function subscribeUnityEvent<E extends UnityEventName>(
+  eventName: E,
+  handler: UnityEventHandler<E>
+): () => void {
+  let handlers = listeners.get(eventName);
+  if (!handlers) {
+    handlers = new Set();
+    listeners.set(eventName, handlers);
+  }
+  const listener = handler as (payload: unknown) => void;
+  handlers.add(listener);
+
+  return () => {
+    handlers.delete(listener);
+    if (handlers.size === 0) {
+      listeners.delete(eventName);
+    }
+  };
+}
+
+/**
+ * Unity `.jslib` 플러그인이 호출할 `window.unityBridge` 콜백 테이블을 등록합니다.
+ * 여러 번 호출해도 안전합니다.
+ */
+export function installUnityBridge(): void {
+  if (typeof window === "undefined" || window.unityBridge) return;
+
+  window.unityBridge = {
+    emit: emitUnityEvent,
+  };
+}
@@ -0,0 +1,176 @@
+import type { ResolvedUnityBuild } from "./build";
+
+export type BuildCacheStatus =
+  "cached" | "downloading" | "updating" | "unavailable";
+
+const BUILD_CACHE_PREFIX = "unity-build:";
+const SERVICE_WORKER_URL = "/unity-build-sw.js";
+const CONTROLLER_TIMEOUT = 3000;
+
+/**
+ * 캐시는 게임 + 빌드 id 단위로 나누고, 같은 빌드의 productVersion 이 바뀌면 교체합니다.
+ * stable/beta 처럼 동시에 쓰이는 빌드가 서로의 캐시를 지우지 않도록 하기 위함입니다.
+ */
+export interface BuildCacheKey {
+  gameId: string;
+  buildId: string;
+  version: string | undefined;
+  /** 카탈로그에 남아 있는 빌드 id. 지정하면 목록에 없는 빌드의 캐시를 삭제 */
+  activeBuildIds?: string[];
+}
+
+export function getBuildCacheName(
+  gameId: string,
+  buildId: string,
+  version: string
+) {
+  return `${BUILD_CACHE_PREFIX}${[gameId, buildId, version]
+    .map(encodeURIComponent)
+    .join(":")}`;
+}
+
+export function getBuildAssetUrls(build: ResolvedUnityBuild) {
+  const { config } = build;
+  return [
+    build.loaderUrl,
+    config.frameworkUrl,
+    config.dataUrl,
+    ...(Array.isArray(config.codeUrl) ? config.codeUrl : [config.codeUrl]),
+  ];
+}
+
+function isCacheSupported() {
+  return (
+    typeof window !== "undefined" &&
+    "caches" in window &&
+    "serviceWorker" in navigator &&
+    window.isSecureContext
+  );
+}
+
+// 첫 방문에서는 clients.claim() 이후에야 페이지가 워커의 제어를 받음
+async function waitForController(): Promise<ServiceWorker | null> {
+  if (navigator.serviceWorker.controller) {
+    return navigator.serviceWorker.controller;
+  }
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => resolve(null), CONTROLLER_TIMEOUT);
+    navigator.serviceWorker.addEventListener(
+      "controllerchange",
+      () => {
+        clearTimeout(timer);
+        resolve(navigator.serviceWorker.controller);
+      },
+      { once: true }
+    );
+  });
+}
+
+interface WorkerCacheReply {
+  /** 빌드 에셋이 모두 캐시에 있는지 */
+  cached: boolean;
+}
+
+// 응답이 없으면(워커 교체 중 등) null
+function postToWorker(worker: ServiceWorker, message: unknown) {
+  return new Promise<WorkerCacheReply | null>((resolve) => {
+    const channel = new MessageChannel();
+    const timer = setTimeout(() => resolve(null), CONTROLLER_TIMEOUT);
+    channel.port1.onmessage = (event) => {
+      clearTimeout(timer);
+      resolve(event.data as WorkerCacheReply);
+    };
+    worker.postMessage(message, [channel.port2]);
+  });
+}
+
+/**
+ * 같은 빌드의 다른 버전, 카탈로그에서 빠진 빌드, 예전 이름 형식의 캐시
+ */
+async function findStaleBuildCaches(key: BuildCacheKey, cacheName: string) {
+  const prefix = `${BUILD_CACHE_PREFIX}${encodeURIComponent(key.gameId)}:`;
+  const names = await caches.keys();
+  return names.filter((name) => {
+    if (!name.startsWith(prefix) || name === cacheName) return false;
+    const parts = name.slice(prefix.length).split(":");
+    if (parts.length !== 2) return true;
+    const buildId = decodeURIComponent(parts[0]);
+    return (
+      buildId === key.buildId ||
+      (key.activeBuildIds !== undefined &&
+        !key.activeBuildIds.includes(buildId))
+    );
+  });
+}
+
+// 설치에 실패해 워커가 활성화되지 않으면 ready 가 끝나지 않으므로 시간 제한을 둠
+async function waitForReady() {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<null>((resolve) => {
+    timer = setTimeout(() => resolve(null), CONTROLLER_TIMEOUT);
+  });
+  try {
+    return await Promise.race([navigator.serviceWorker.ready, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function getActiveWorker() {
+  await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  if (!(await waitForReady())) return null;
+  return waitForController();
+}
+
+/**
+ * 서비스 워커에 현재 빌드의 캐시를 알리고 오래된 캐시를 정리합니다. 상태는 워커가
+ * 확인한 캐시 내용으로 결정합니다.
+ * `productVersion`이 없는 빌드는 버전 변경을 감지할 수 없으므로 캐시하지 않습니다.
+ */
+export async function prepareBuildCache(
+  key: BuildCacheKey,
+  build: ResolvedUnityBuild
+): Promise<BuildCacheStatus> {
+  if (!key.version || !isCacheSupported()) return "unavailable";
+
+  try {
+    const worker = await getActiveWorker();
+    if (!worker) return "unavailable";
+
+    const cacheName = getBuildCacheName(key.gameId, key.buildId, key.version);
+    const stale = await findStaleBuildCaches(key, cacheName);
+    const reply = await postToWorker(worker, {
+      type: "unity-build:activate",
+      buildPath: build.buildPath,
+      cacheName,
+      evict: stale,
+      urls: getBuildAssetUrls(build),
+    });
+    if (!reply) return "unavailable";
+    if (reply.cached) return "cached";
+    return stale.length > 0 ? "updating" : "downloading";
+  } catch (err) {
+    console.warn("[UnityLoader] Build cache is not available:", err);
+    return "unavailable";
+  }
+}
+
+/**
+ * 로드가 끝난 뒤 워커에 에셋이 실제로 저장됐는지 확인. 일부가 빠졌으면(저장 공간 부족,
+ * Unity 자체 캐시에서 응답 등) 다음 방문에 다시 받아야 하므로 "unavailable"
+ */
+export async function confirmBuildCache(
+  key: BuildCacheKey,
+  build: ResolvedUnityBuild
+): Promise<BuildCacheStatus> {
+  if (!key.version || !isCacheSupported()) return "unavailable";
+  const worker = navigator.serviceWorker.controller;
+  if (!worker) return "unavailable";
+
+  const reply = await postToWorker(worker, {
+    type: "unity-build:status",
+    cacheName: getBuildCacheName(key.gameId, key.buildId, key.version),
+    urls: getBuildAssetUrls(build),
+  });
+  return reply?.cached ? "cached" : "unavailable";
+}
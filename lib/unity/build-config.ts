@@ -0,0 +1,248 @@
+import type { UnityBuildConfig } from "./types";
+
+export type BuildConfigIssueCode =
+  | "manifestMissing"
+  | "fetchFailed"
+  | "invalidJson"
+  | "notAnObject"
+  | "invalidType"
+  | "invalidUrl"
+  | "invalidBuildName"
+  | "emptyValue"
+  | "conflictingCode"
+  | "unknownField";
+
+export interface BuildConfigIssue {
+  severity: "error" | "warning";
+  code: BuildConfigIssueCode;
+  field?: string;
+  detail?: string;
+}
+
+export interface BuildConfigResult {
+  /** 검증을 통과한 필드만 담은 설정. 코드 URL은 `codeUrl` 하나로 정규화됩니다. */
+  config: UnityBuildConfig | null;
+  issues: BuildConfigIssue[];
+}
+
+const stringFields = [
+  "buildName",
+  "dataUrl",
+  "frameworkUrl",
+  "wasmCodeUrl",
+  "streamingAssetsUrl",
+  "companyName",
+  "productName",
+  "productVersion",
+] as const;
+
+const stringListFields = ["wasmFiles", "arguments"] as const;
+
+const urlFields = new Set([
+  "dataUrl",
+  "frameworkUrl",
+  "codeUrl",
+  "wasmCodeUrl",
+  "wasmFiles",
+  "streamingAssetsUrl",
+]);
+
+const knownFields = new Set<string>([
+  ...stringFields,
+  ...stringListFields,
+  "codeUrl",
+]);
+
+// 빌드 폴더 기준 상대 경로, 루트 기준 경로, http(s) URL만 허용
+export function isValidBuildUrl(url: string) {
+  if (url.trim() === "" || /\s|\\/.test(url)) return false;
+  const scheme = url.match(/^([a-z][a-z0-9+.-]*):/i);
+  return !scheme || /^https?$/i.test(scheme[1]);
+}
+
+function describeType(value: unknown) {
+  if (value === null) return "null";
+  return Array.isArray(value) ? "array" : typeof value;
+}
+
+export function parseBuildConfig(json: unknown): BuildConfigResult {
+  const issues: BuildConfigIssue[] = [];
+
+  if (typeof json !== "object" || json === null || Array.isArray(json)) {
+    issues.push({
+      severity: "error",
+      code: "notAnObject",
+      detail: describeType(json),
+    });
+    return { config: null, issues };
+  }
+
+  const raw = json as Record<string, unknown>;
+  const values: Record<string, string | string[]> = {};
+
+  const checkUrls = (field: string, urls: string[]) => {
+    const invalid = urls.filter((url) => !isValidBuildUrl(url));
+    invalid.forEach((url) =>
+      issues.push({ severity: "error", code: "invalidUrl", field, detail: url })
+    );
+    return invalid.length === 0;
+  };
+
+  for (const field of Object.keys(raw)) {
+    if (!knownFields.has(field)) {
+      issues.push({ severity: "warning", code: "unknownField", field });
+    }
+  }
+
+  for (const field of stringFields) {
+    const value = raw[field];
+    if (value === undefined) continue;
+    if (typeof value !== "string") {
+      issues.push({
+        severity: "error",
+        code: "invalidType",
+        field,
+        detail: describeType(value),
+      });
+      continue;
+    }
+    if (value.trim() === "") {
+      issues.push({ severity: "error", code: "emptyValue", field });
+      continue;
+    }
+    if (urlFields.has(field) && !checkUrls(field, [value])) continue;
+    values[field] = value;
+  }
+
+  for (const field of [...stringListFields, "codeUrl"] as const) {
+    const value = raw[field];
+    if (value === undefined) continue;
+    if (field === "codeUrl" && typeof value === "string") {
+      if (value.trim() === "") {
+        issues.push({ severity: "error", code: "emptyValue", field });
+      } else if (checkUrls(field, [value])) {
+        values[field] = value;
+      }
+      continue;
+    }
+    if (
+      !Array.isArray(value) ||
+      !value.every((item) => typeof item === "string")
+    ) {
+      issues.push({
+        severity: "error",
+        code: "invalidType",
+        field,
+        detail: describeType(value),
+      });
+      continue;
+    }
+    // arguments는 빈 배열이 정상
+    if (value.length === 0 && field !== "arguments") {
+      issues.push({ severity: "error", code: "emptyValue", field });
+      continue;
+    }
+    if (urlFields.has(field) && !checkUrls(field, value)) continue;
+    values[field] = value;
+  }
+
+  if (
+    typeof values.buildName === "string" &&
+    /[/\\?#]/.test(values.buildName)
+  ) {
+    issues.push({
+      severity: "error",
+      code: "invalidBuildName",
+      field: "buildName",
+      detail: values.buildName,
+    });
+    delete values.buildName;
+  }
+
+  // 코드 URL 우선순위: wasmFiles > wasmCodeUrl > codeUrl
+  const codeFields = (["wasmFiles", "wasmCodeUrl", "codeUrl"] as const).filter(
+    (field) => values[field] !== undefined
+  );
+  if (codeFields.length > 1) {
+    issues.push({
+      severity: "warning",
+      code: "conflictingCode",
+      field: codeFields[0],
+      detail: codeFields.slice(1).join(", "),
+    });
+  }
+  const codeUrl = codeFields.length > 0 ? values[codeFields[0]] : undefined;
+
+  const config: UnityBuildConfig = {
+    buildName: values.buildName as string | undefined,
+    dataUrl: values.dataUrl as string | undefined,
+    frameworkUrl: values.frameworkUrl as string | undefined,
+    codeUrl,
+    streamingAssetsUrl: values.streamingAssetsUrl as string | undefined,
+    companyName: values.companyName as string | undefined,
+    productName: values.productName as string | undefined,
+    productVersion: values.productVersion as string | undefined,
+    arguments: values.arguments as string[] | undefined,
+  };
+
+  for (const key of Object.keys(config) as (keyof UnityBuildConfig)[]) {
+    if (config[key] === undefined) delete config[key];
+  }
+
+  return { config, issues };
+}
+
+export async function loadBuildConfig(url: string): Promise<BuildConfigResult> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (err) {
+    return {
+      config: null,
+      issues: [
+        {
+          severity: "error",
+          code: "fetchFailed",
+          detail: err instanceof Error ? err.message : String(err),
+        },
+      ],
+    };
+  }
+
+  if (response.status === 404) {
+    return {
+      config: null,
+      issues: [{ severity: "warning", code: "manifestMissing", detail: url }],
+    };
+  }
+  if (!response.ok) {
+    return {
+      config: null,
+      issues: [
+        {
+          severity: "error",
+          code: "fetchFailed",
+          detail: `HTTP ${response.status}`,
+        },
+      ],
+    };
+  }
+
+  let json: unknown;
+  try {
+    json = await response.json();
+  } catch (err) {
+    return {
+      config: null,
+      issues: [
+        {
+          severity: "error",
+          code: "invalidJson",
+          detail: err instanceof Error ? err.message : String(err),
+        },
+      ],
+    };
+  }
+
+  return parseBuildConfig(json);
+}
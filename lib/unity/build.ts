@@ -0,0 +1,132 @@
+import { loadBuildConfig, type BuildConfigResult } from "./build-config";
+import type { UnityBuildConfig, UnityInstanceConfig } from "./types";
+
+export interface UnityBuildLocation {
+  buildUrl: string;
+  buildFolder: string;
+  buildName?: string;
+}
+
+export interface ResolvedUnityBuild {
+  buildName: string;
+  buildPath: string;
+  loaderUrl: string;
+  /** Build.json 에 적힌 productVersion. config 에는 없을 때 Unity 기본값이 들어감 */
+  version?: string;
+  config: UnityInstanceConfig;
+}
+
+export function getBuildPath({ buildUrl, buildFolder }: UnityBuildLocation) {
+  return `${buildUrl}/${buildFolder}`;
+}
+
+export function detectBuildName({ buildUrl, buildName }: UnityBuildLocation) {
+  if (buildName) return buildName;
+  const urlParts = buildUrl.split("/").filter(Boolean);
+  return urlParts[urlParts.length - 1] || "GODUCK";
+}
+
+export function fetchBuildConfig(
+  location: UnityBuildLocation
+): Promise<BuildConfigResult> {
+  return loadBuildConfig(`${getBuildPath(location)}/Build.json`);
+}
+
+// 절대 경로나 외부 URL은 그대로 두고, 상대 경로만 빌드 폴더 기준으로 변환
+export function resolveBuildFileUrl(url: string, buildPath: string): string {
+  if (url.startsWith("http") || url.startsWith("/")) {
+    return url;
+  }
+  return `${buildPath}/${url}`;
+}
+
+export function resolveUnityBuild(
+  location: UnityBuildLocation,
+  buildConfig: UnityBuildConfig | null
+): ResolvedUnityBuild {
+  const buildName = buildConfig?.buildName || detectBuildName(location);
+  const buildPath = getBuildPath(location);
+
+  // buildConfig는 parseBuildConfig로 정규화되어 코드 URL이 codeUrl 하나에만 담김
+  let codeUrl: string | string[] = `${buildPath}/${buildName}.wasm.unityweb`;
+  if (typeof buildConfig?.codeUrl === "string") {
+    codeUrl = resolveBuildFileUrl(buildConfig.codeUrl, buildPath);
+  } else if (Array.isArray(buildConfig?.codeUrl)) {
+    codeUrl = buildConfig.codeUrl.map((url) =>
+      resolveBuildFileUrl(url, buildPath)
+    );
+  }
+
+  return {
+    buildName,
+    buildPath,
+    loaderUrl: `${buildPath}/${buildName}.loader.js`,
+    version: buildConfig?.productVersion || undefined,
+    config: {
+      dataUrl: buildConfig?.dataUrl
+        ? resolveBuildFileUrl(buildConfig.dataUrl, buildPath)
+        : `${buildPath}/${buildName}.data.unityweb`,
+      frameworkUrl: buildConfig?.frameworkUrl
+        ? resolveBuildFileUrl(buildConfig.frameworkUrl, buildPath)
+        : `${buildPath}/${buildName}.framework.js.unityweb`,
+      codeUrl,
+      // Unity 템플릿과 같이 Build 폴더가 아닌 익스포트 루트(index.html 위치) 기준
+      streamingAssetsUrl: buildConfig?.streamingAssetsUrl
+        ? resolveBuildFileUrl(buildConfig.streamingAssetsUrl, location.buildUrl)
+        : `${location.buildUrl}/StreamingAssets`,
+      companyName: buildConfig?.companyName || "DefaultCompany",
+      productName: buildConfig?.productName || buildName,
+      productVersion: buildConfig?.productVersion || "0.0.1",
+      arguments: buildConfig?.arguments || [],
+    },
+  };
+}
+
+/**
+ * Unity 로더 스크립트를 body에 삽입하고, 로드 후 페이지 load 이벤트와
+ * 두 번의 animation frame을 기다려 캔버스가 레이아웃된 상태를 보장합니다.
+ */
+export function loadUnityScript(
+  loaderUrl: string,
+  onCreated?: (script: HTMLScriptElement) => void
+): Promise<HTMLScriptElement> {
+  return new Promise((resolve, reject) => {
+    const script = document.createElement("script");
+    script.src = loaderUrl;
+    script.async = false;
+    script.defer = true;
+
+    script.onload = async () => {
+      await new Promise<void>((resolveLoad) => {
+        if (document.readyState === "complete") {
+          resolveLoad();
+        } else {
+          window.addEventListener("load", () => resolveLoad(), {
+            once: true,
+          });
+        }
+      });
+
+      await new Promise<void>((resolveFrame) => {
+        requestAnimationFrame(() => {
+          requestAnimationFrame(() => resolveFrame());
+        });
+      });
+
+      resolve(script);
+    };
+
+    script.onerror = () => {
+      reject(new Error(`Failed to load ${loaderUrl}`));
+    };
+
+    onCreated?.(script);
+    document.body.appendChild(script);
+  });
+}
+
+export function removeUnityScript(script: HTMLScriptElement | null) {
+  if (script && script.parentNode) {
+    script.parentNode.removeChild(script);
+  }
+}
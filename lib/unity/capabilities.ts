@@ -0,0 +1,131 @@
+export interface DeviceCapabilities {
+  /** 지원하는 최고 WebGL 버전 (0이면 미지원) */
+  webgl: 0 | 1 | 2;
+  webAssembly: boolean;
+  streamingCompile: boolean;
+  /** Device Memory API 값(GB). Chromium 계열에서만 제공 */
+  deviceMemory?: number;
+  hardwareConcurrency?: number;
+  /** iOS/iPadOS 버전 ("16.4" 형태) */
+  iosVersion?: string;
+}
+
+export type CapabilityVerdict = "supported" | "limited" | "unsupported";
+
+export type CapabilityIssue =
+  | "noWebGL"
+  | "noWebAssembly"
+  | "webgl1Only"
+  | "noStreamingCompile"
+  | "lowMemory"
+  | "outdatedIOS"
+  | "problematicIOS";
+
+export interface CapabilityReport {
+  capabilities: DeviceCapabilities;
+  verdict: CapabilityVerdict;
+  issues: CapabilityIssue[];
+}
+
+const LOW_MEMORY_GB = 2;
+// WebGL2가 기본 활성화된 첫 버전
+const MIN_IOS_MAJOR = 15;
+// WebGL2 컨텍스트 손실/성능 저하가 알려진 버전
+const PROBLEMATIC_IOS = [/^15\.[01]$/];
+
+const blockingIssues = new Set<CapabilityIssue>([
+  "noWebGL",
+  "noWebAssembly",
+  "outdatedIOS",
+]);
+
+function probeWebGL(): 0 | 1 | 2 {
+  try {
+    const canvas = document.createElement("canvas");
+    const webgl2 = canvas.getContext("webgl2");
+    if (webgl2) {
+      webgl2.getExtension("WEBGL_lose_context")?.loseContext();
+      return 2;
+    }
+    const webgl = (canvas.getContext("webgl") ||
+      canvas.getContext("experimental-webgl")) as WebGLRenderingContext | null;
+    if (webgl) {
+      webgl.getExtension("WEBGL_lose_context")?.loseContext();
+      return 1;
+    }
+  } catch {}
+  return 0;
+}
+
+function detectIOSVersion(): string | undefined {
+  const ua = navigator.userAgent;
+  const match = ua.match(/(?:iPhone|iPad|iPod).*? OS (\d+)_(\d+)/);
+  if (match) return `${match[1]}.${match[2]}`;
+
+  // iPadOS 13+는 데스크톱 Safari UA를 사용
+  if (navigator.platform === "MacIntel" && navigator.maxTouchPoints > 1) {
+    const version = ua.match(/Version\/(\d+)\.(\d+)/);
+    if (version) return `${version[1]}.${version[2]}`;
+  }
+  return undefined;
+}
+
+export function probeDeviceCapabilities(): DeviceCapabilities {
+  const webAssembly =
+    typeof WebAssembly === "object" &&
+    typeof WebAssembly.instantiate === "function";
+
+  return {
+    webgl: probeWebGL(),
+    webAssembly,
+    streamingCompile:
+      webAssembly && typeof WebAssembly.instantiateStreaming === "function",
+    deviceMemory: (navigator as Navigator & { deviceMemory?: number })
+      .deviceMemory,
+    hardwareConcurrency: navigator.hardwareConcurrency || undefined,
+    iosVersion: detectIOSVersion(),
+  };
+}
+
+export function evaluateCapabilities(
+  capabilities: DeviceCapabilities
+): CapabilityReport {
+  const issues: CapabilityIssue[] = [];
+
+  if (capabilities.webgl === 0) issues.push("noWebGL");
+  if (capabilities.webgl === 1) issues.push("webgl1Only");
+  if (!capabilities.webAssembly) issues.push("noWebAssembly");
+  if (capabilities.webAssembly && !capabilities.streamingCompile) {
+    issues.push("noStreamingCompile");
+  }
+  if (
+    capabilities.deviceMemory !== undefined &&
+    capabilities.deviceMemory < LOW_MEMORY_GB
+  ) {
+    issues.push("lowMemory");
+  }
+  if (capabilities.iosVersion) {
+    const major = Number(capabilities.iosVersion.split(".")[0]);
+    if (major < MIN_IOS_MAJOR) {
+      issues.push("outdatedIOS");
+    } else if (
+      PROBLEMATIC_IOS.some((pattern) => pattern.test(capabilities.iosVersion!))
+    ) {
+      issues.push("problematicIOS");
+    }
+  }
+
+  const verdict: CapabilityVerdict = issues.some((issue) =>
+    blockingIssues.has(issue)
+  )
+    ? "unsupported"
+    : issues.length > 0
+      ? "limited"
+      : "supported";
+
+  return { capabilities, verdict, issues };
+}
+
+export function checkDeviceCapabilities(): CapabilityReport {
+  return evaluateCapabilities(probeDeviceCapabilities());
+}
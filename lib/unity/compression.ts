@@ -0,0 +1,34 @@
+export type UnityCompression = "gzip" | "brotli" | "none";
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+// Unity 는 .unityweb 압축 스트림 앞부분에 이 주석을 넣음
+const UNITYWEB_BROTLI_MARKER = "UnityWeb Compressed Content (brotli)";
+/** 판별에 필요한 파일 앞부분 길이 */
+export const COMPRESSION_SNIFF_BYTES = 256;
+/** 압축 전송 응답에 붙는 압축 해제 후 크기. Content-Length 는 압축 크기라 진행률 계산에 쓸 수 없음 */
+export const DECODED_LENGTH_HEADER = "X-Decoded-Content-Length";
+
+/**
+ * 확장자로 판단하고, .unityweb 처럼 확장자로 알 수 없으면 앞부분 바이트를 확인
+ */
+export function detectUnityCompression(
+  fileName: string,
+  head: Uint8Array
+): UnityCompression {
+  if (fileName.endsWith(".gz")) return "gzip";
+  if (fileName.endsWith(".br")) return "brotli";
+  if (!fileName.endsWith(".unityweb")) return "none";
+
+  if (head[0] === GZIP_MAGIC[0] && head[1] === GZIP_MAGIC[1]) return "gzip";
+  const text = new TextDecoder("latin1").decode(
+    head.subarray(0, COMPRESSION_SNIFF_BYTES)
+  );
+  return text.includes(UNITYWEB_BROTLI_MARKER) ? "brotli" : "none";
+}
+
+/**
+ * 압축 확장자를 뗀 원래 파일 이름 ("GODUCK.wasm.br" -> "GODUCK.wasm")
+ */
+export function stripCompressionSuffix(fileName: string) {
+  return fileName.replace(/\.(gz|br|unityweb)$/, "");
+}
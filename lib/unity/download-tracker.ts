@@ -0,0 +1,189 @@
+import type { ResolvedUnityBuild } from "./build";
+import { DECODED_LENGTH_HEADER } from "./compression";
+
+export type DownloadAssetKind = "framework" | "data" | "code";
+
+export interface DownloadAssetProgress {
+  kind: DownloadAssetKind;
+  url: string;
+  loaded: number;
+  /** 압축 전송(Content-Encoding)인데 압축 해제 크기 헤더가 없어 전체 크기를 알 수 없으면 undefined */
+  total?: number;
+  done: boolean;
+  /** 네트워크로 받지 않고 캐시(UnityCache, 304 응답)에서 읽은 경우 */
+  cached?: boolean;
+}
+
+export interface DownloadSnapshot {
+  assets: DownloadAssetProgress[];
+  loaded: number;
+  total?: number;
+  done: boolean;
+  bytesPerSecond: number;
+  etaSeconds?: number;
+}
+
+/** Unity 진행률 콜백은 다운로드가 끝나면 0.9에서 멈춘 뒤 초기화 동안 1까지 진행 */
+export const UNITY_DOWNLOAD_PROGRESS = 0.9;
+
+const UPDATE_INTERVAL = 200;
+// 전송 속도 지수 이동 평균 가중치
+const SPEED_SMOOTHING = 0.3;
+
+function normalizeUrl(url: string) {
+  const parsed = new URL(url, window.location.href);
+  return `${parsed.origin}${parsed.pathname}`;
+}
+
+function getRequestUrl(input: RequestInfo | URL) {
+  if (typeof input === "string") return input;
+  if (input instanceof URL) return input.href;
+  return input.url;
+}
+
+export function getDownloadAssets(build: ResolvedUnityBuild) {
+  const { config } = build;
+  const codeUrls = Array.isArray(config.codeUrl)
+    ? config.codeUrl
+    : [config.codeUrl];
+  return [
+    { kind: "framework" as const, url: config.frameworkUrl },
+    { kind: "data" as const, url: config.dataUrl },
+    ...codeUrls.map((url) => ({ kind: "code" as const, url })),
+  ];
+}
+
+/**
+ * Unity 로더가 사용하는 `window.fetch`를 감싸 빌드 에셋의 실제 수신 바이트를 집계합니다.
+ * 응답 헤더는 그대로 유지되므로 WebAssembly 스트리밍 컴파일에는 영향이 없습니다.
+ * UnityCache(IndexedDB) 에서 읽은 에셋은 fetch 를 거치지 않거나 304 만 받으므로,
+ * 304 는 바로 완료로 처리하고 나머지는 로더 진행률을 보고 `complete()` 로 마무리합니다.
+ */
+export function createDownloadTracker(
+  build: ResolvedUnityBuild,
+  onUpdate: (snapshot: DownloadSnapshot) => void
+) {
+  const assets = new Map<string, DownloadAssetProgress>(
+    getDownloadAssets(build).map((asset) => [
+      normalizeUrl(asset.url),
+      { ...asset, loaded: 0, done: false },
+    ])
+  );
+  const originalFetch = window.fetch;
+  let active = true;
+  let bytesPerSecond = 0;
+  let lastSample = { time: performance.now(), loaded: 0 };
+  let lastEmit = 0;
+
+  const snapshot = (): DownloadSnapshot => {
+    const list = Array.from(assets.values()).map((asset) => ({ ...asset }));
+    const loaded = list.reduce((sum, asset) => sum + asset.loaded, 0);
+    const total = list.every((asset) => asset.total !== undefined)
+      ? list.reduce((sum, asset) => sum + (asset.total ?? 0), 0)
+      : undefined;
+    const done = list.every((asset) => asset.done);
+
+    const now = performance.now();
+    const elapsed = (now - lastSample.time) / 1000;
+    if (elapsed > 0) {
+      const sample = (loaded - lastSample.loaded) / elapsed;
+      bytesPerSecond = bytesPerSecond
+        ? bytesPerSecond * (1 - SPEED_SMOOTHING) + sample * SPEED_SMOOTHING
+        : sample;
+      lastSample = { time: now, loaded };
+    }
+
+    return {
+      assets: list,
+      loaded,
+      total,
+      done,
+      bytesPerSecond,
+      etaSeconds:
+        total !== undefined && bytesPerSecond > 0 && !done
+          ? Math.max(0, (total - loaded) / bytesPerSecond)
+          : undefined,
+    };
+  };
+
+  const emit = (force = false) => {
+    const now = performance.now();
+    if (!force && now - lastEmit < UPDATE_INTERVAL) return;
+    lastEmit = now;
+    onUpdate(snapshot());
+  };
+
+  const markCached = (asset: DownloadAssetProgress) => {
+    if (asset.done) return;
+    asset.done = true;
+    asset.cached = asset.loaded === 0;
+    asset.total = asset.loaded;
+  };
+
+  const trackResponse = (asset: DownloadAssetProgress, response: Response) => {
+    if (!response.body) return response;
+
+    // 압축 전송 시 Content-Length는 압축 크기라 스트림 바이트 수와 비교할 수 없으므로
+    // 서버가 알려 준 압축 해제 크기를 사용
+    const length = response.headers.has("content-encoding")
+      ? response.headers.get(DECODED_LENGTH_HEADER)
+      : response.headers.get("content-length");
+    asset.total = length !== null ? Number(length) : undefined;
+    asset.loaded = 0;
+    asset.done = false;
+
+    const counter = new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        asset.loaded += chunk.byteLength;
+        emit();
+        controller.enqueue(chunk);
+      },
+      flush() {
+        asset.done = true;
+        asset.total = asset.loaded;
+        emit(true);
+      },
+    });
+
+    return new Response(response.body.pipeThrough(counter), {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  };
+
+  const trackedFetch: typeof window.fetch = async (input, init) => {
+    const response = await originalFetch(input, init);
+    if (!active) return response;
+
+    const asset = assets.get(normalizeUrl(getRequestUrl(input)));
+    if (asset && response.status === 304) {
+      markCached(asset);
+      emit(true);
+      return response;
+    }
+    return asset && response.ok ? trackResponse(asset, response) : response;
+  };
+
+  window.fetch = trackedFetch;
+
+  return {
+    /** 로더가 다운로드 단계를 마쳤을 때 호출. 요청 없이 캐시에서 읽은 에셋을 완료로 표시 */
+    complete() {
+      if (!active) return;
+      const pending = Array.from(assets.values()).filter(
+        (asset) => !asset.done
+      );
+      if (pending.length === 0) return;
+      pending.forEach(markCached);
+      emit(true);
+    },
+    stop() {
+      active = false;
+      // 다른 코드가 그 사이 fetch를 다시 감쌌다면 체인을 깨지 않도록 그대로 둠
+      if (window.fetch === trackedFetch) {
+        window.fetch = originalFetch;
+      }
+    },
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * 게임이 선호하는 화면 방향. `any`면 회전 안내와 방향 잠금을 하지 않음
+ */
+export type GameOrientation = "landscape" | "portrait" | "any";
+
+/**
+ * 컨테이너와 게임 비율이 다를 때의 캔버스 배치 방식.
+ * - `letterbox`: 비율을 유지한 채 컨테이너 안에 맞추고 남는 공간은 검은 여백
+ * - `stretch`: 비율을 무시하고 컨테이너를 가득 채움
+ * - `fill`: 비율을 유지한 채 컨테이너를 가득 채우고 넘치는 부분은 잘라냄
+ */
+export type ScaleMode = "letterbox" | "stretch" | "fill";
+
+export interface GameLayout {
+  /** 가로/세로 비율 */
+  aspectRatio: number;
+  orientation: GameOrientation;
+  scaleMode: ScaleMode;
+}
+
+export interface LayoutSize {
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_LAYOUT: GameLayout = {
+  aspectRatio: 16 / 9,
+  orientation: "landscape",
+  scaleMode: "letterbox",
+};
+
+/**
+ * "16:9", "9/16", "1" 형태의 비율을 숫자로 변환. 잘못된 값이면 undefined
+ */
+export function parseAspectRatio(value: string | number | undefined) {
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value > 0 ? value : undefined;
+  }
+  if (!value) return undefined;
+
+  const match = value
+    .trim()
+    .match(/^(\d+(?:\.\d+)?)\s*(?:[:/]\s*(\d+(?:\.\d+)?))?$/);
+  if (!match) return undefined;
+  const ratio = Number(match[1]) / Number(match[2] ?? 1);
+  return Number.isFinite(ratio) && ratio > 0 ? ratio : undefined;
+}
+
+export function resolveGameLayout(layout: {
+  aspectRatio?: string | number;
+  orientation?: GameOrientation;
+  scaleMode?: ScaleMode;
+}): GameLayout {
+  return {
+    aspectRatio:
+      parseAspectRatio(layout.aspectRatio) ?? DEFAULT_LAYOUT.aspectRatio,
+    orientation: layout.orientation ?? DEFAULT_LAYOUT.orientation,
+    scaleMode: layout.scaleMode ?? DEFAULT_LAYOUT.scaleMode,
+  };
+}
+
+/**
+ * 컨테이너 크기와 배치 방식에 따른 캔버스의 CSS 크기(px)
+ */
+export function getCanvasLayoutSize(
+  container: LayoutSize,
+  layout: GameLayout
+): LayoutSize {
+  if (layout.scaleMode === "stretch") return container;
+
+  const containerRatio = container.width / container.height;
+  // letterbox 는 더 좁은 쪽에, fill 은 더 넓은 쪽에 맞춤
+  const fitWidth =
+    layout.scaleMode === "letterbox"
+      ? containerRatio <= layout.aspectRatio
+      : containerRatio > layout.aspectRatio;
+
+  return fitWidth
+    ? {
+        width: container.width,
+        height: Math.round(container.width / layout.aspectRatio),
+      }
+    : {
+        width: Math.round(container.height * layout.aspectRatio),
+        height: container.height,
+      };
+}
+
+/**
+ * 현재 화면이 게임이 원하는 방향과 맞지 않으면 true
+ */
+export function isOrientationMismatch(
+  orientation: GameOrientation,
+  isLandscape: boolean
+) {
+  if (orientation === "any") return false;
+  return (orientation === "landscape") !== isLandscape;
+}
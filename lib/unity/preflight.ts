@@ -0,0 +1,214 @@
+import type { ResolvedUnityBuild } from "./build";
+import {
+  COMPRESSION_SNIFF_BYTES,
+  detectUnityCompression,
+  type UnityCompression,
+} from "./compression";
+
+export type PreflightFileKind =
+  "loader" | "framework" | "data" | "code" | "streamingAssets";
+
+export type PreflightFileStatus =
+  "ok" | "missing" | "misconfigured" | "unreachable";
+
+export type PreflightIssue =
+  "htmlFallback" | "missingEncoding" | "wrongContentType" | "empty";
+
+export interface PreflightTarget {
+  kind: PreflightFileKind;
+  url: string;
+  optional?: boolean;
+}
+
+export interface PreflightFileResult extends PreflightTarget {
+  status: PreflightFileStatus;
+  httpStatus?: number;
+  size?: number;
+  contentType?: string;
+  contentEncoding?: string;
+  issues: PreflightIssue[];
+}
+
+export function getPreflightTargets(
+  build: ResolvedUnityBuild
+): PreflightTarget[] {
+  const { config } = build;
+  const codeUrls = Array.isArray(config.codeUrl)
+    ? config.codeUrl
+    : [config.codeUrl];
+
+  return [
+    { kind: "loader", url: build.loaderUrl },
+    { kind: "framework", url: config.frameworkUrl },
+    { kind: "data", url: config.dataUrl },
+    ...codeUrls.map((url) => ({ kind: "code" as const, url })),
+    // StreamingAssets는 폴더라서 서버에 따라 404가 정상일 수 있음
+    {
+      kind: "streamingAssets",
+      url: `${config.streamingAssetsUrl}/`,
+      optional: true,
+    },
+  ];
+}
+
+const CONTENT_ENCODINGS: Record<UnityCompression, string | undefined> = {
+  gzip: "gzip",
+  brotli: "br",
+  none: undefined,
+};
+
+// "bytes 0-0/12345" 형태의 Content-Range에서 전체 크기 추출
+function parseContentRangeSize(value: string | null) {
+  const match = value?.match(/\/(\d+)$/);
+  return match ? Number(match[1]) : undefined;
+}
+
+function getTargetPath(target: PreflightTarget) {
+  return target.url.split("?")[0].toLowerCase();
+}
+
+/**
+ * .unityweb 는 이름으로 압축 방식을 알 수 없어 앞부분을 읽어 판별.
+ * Content-Encoding 이 있으면 브라우저가 풀어서 돌려주므로 헤더가 없을 때만 읽음
+ */
+async function detectTargetCompression(
+  target: PreflightTarget,
+  contentEncoding: string | undefined,
+  signal?: AbortSignal
+): Promise<UnityCompression> {
+  const path = getTargetPath(target);
+  if (!path.endsWith(".unityweb") || contentEncoding) {
+    return detectUnityCompression(path, new Uint8Array());
+  }
+  try {
+    const response = await fetch(target.url, {
+      headers: { Range: `bytes=0-${COMPRESSION_SNIFF_BYTES - 1}` },
+      cache: "no-store",
+      signal,
+    });
+    if (!response.ok || !response.body) return "none";
+    // Range 를 무시하고 전체 파일을 보내는 서버도 있으므로 필요한 만큼만 읽고 중단
+    const reader = response.body.getReader();
+    const head = new Uint8Array(COMPRESSION_SNIFF_BYTES);
+    let length = 0;
+    while (length < head.length) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const chunk = value.subarray(0, head.length - length);
+      head.set(chunk, length);
+      length += chunk.length;
+    }
+    reader.cancel().catch(() => {});
+    return detectUnityCompression(path, head.subarray(0, length));
+  } catch {
+    return "none";
+  }
+}
+
+function detectIssues(
+  target: PreflightTarget,
+  contentType: string | undefined,
+  contentEncoding: string | undefined,
+  compression: UnityCompression,
+  size: number | undefined
+): PreflightIssue[] {
+  const issues: PreflightIssue[] = [];
+  const path = getTargetPath(target);
+
+  // 존재하지 않는 파일에 대해 Next.js 404 페이지나 SPA 폴백이 응답하는 경우
+  if (target.kind !== "streamingAssets" && contentType?.includes("text/html")) {
+    issues.push("htmlFallback");
+  }
+  const expectedEncoding = CONTENT_ENCODINGS[compression];
+  if (expectedEncoding && contentEncoding !== expectedEncoding) {
+    issues.push("missingEncoding");
+  }
+  if (path.endsWith(".wasm") && !contentType?.includes("application/wasm")) {
+    issues.push("wrongContentType");
+  }
+  if (size === 0) {
+    issues.push("empty");
+  }
+  return issues;
+}
+
+async function requestHead(url: string, signal?: AbortSignal) {
+  const response = await fetch(url, {
+    method: "HEAD",
+    cache: "no-store",
+    signal,
+  });
+  // HEAD를 허용하지 않는 서버는 1바이트 range 요청으로 대체
+  if (response.status !== 405 && response.status !== 501) {
+    return response;
+  }
+  const rangeResponse = await fetch(url, {
+    headers: { Range: "bytes=0-0" },
+    cache: "no-store",
+    signal,
+  });
+  rangeResponse.body?.cancel().catch(() => {});
+  return rangeResponse;
+}
+
+export async function checkBuildFile(
+  target: PreflightTarget,
+  signal?: AbortSignal
+): Promise<PreflightFileResult> {
+  let response: Response;
+  try {
+    response = await requestHead(target.url, signal);
+  } catch {
+    return { ...target, status: "unreachable", issues: [] };
+  }
+
+  const contentType = response.headers.get("content-type") ?? undefined;
+  const contentEncoding = response.headers.get("content-encoding") ?? undefined;
+  const contentLength = response.headers.get("content-length");
+  const size =
+    response.status === 206
+      ? parseContentRangeSize(response.headers.get("content-range"))
+      : contentLength !== null
+        ? Number(contentLength)
+        : undefined;
+
+  if (!response.ok) {
+    return {
+      ...target,
+      status: "missing",
+      httpStatus: response.status,
+      issues: [],
+    };
+  }
+
+  const compression = await detectTargetCompression(
+    target,
+    contentEncoding,
+    signal
+  );
+  const issues = detectIssues(
+    target,
+    contentType,
+    contentEncoding,
+    compression,
+    size
+  );
+  return {
+    ...target,
+    status: issues.length > 0 ? "misconfigured" : "ok",
+    httpStatus: response.status,
+    size,
+    contentType,
+    contentEncoding,
+    issues,
+  };
+}
+
+export function runBuildPreflight(
+  build: ResolvedUnityBuild,
+  signal?: AbortSignal
+): Promise<PreflightFileResult[]> {
+  return Promise.all(
+    getPreflightTargets(build).map((target) => checkBuildFile(target, signal))
+  );
+}
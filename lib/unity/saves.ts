@@ -0,0 +1,358 @@
+import { requestToPromise, transactionToPromise } from "@/lib/indexed-db";
+import { trySendUnityMessage } from "@/lib/unity/bridge";
+import type { UnityInstance } from "@/lib/unity/types";
+
+/**
+ * Unity WebGL 은 `Application.persistentDataPath`(`/idbfs/<hash>`)를 Emscripten IDBFS 로
+ * 마운트하고, 파일을 IndexedDB `/idbfs` DB 의 `FILE_DATA` 스토어에 경로를 키로 저장합니다.
+ * 같은 오리진의 모든 Unity 게임이 이 스토어를 공유하므로 세이브 관리는 게임이
+ * `savePathReady` 로 알려준 폴더(scope) 안의 파일만 다룹니다.
+ */
+const IDBFS_DB_NAME = "/idbfs";
+const IDBFS_STORE = "FILE_DATA";
+// Emscripten IDBFS.DB_VERSION. 더 높은 버전으로 열면 Unity 가 DB 를 열지 못함
+const IDBFS_DB_VERSION = 21;
+export const IDBFS_ROOT = "/idbfs";
+
+const SCOPE_STORAGE_PREFIX = "goduck:save-scope:";
+const DEVICE_ID_STORAGE_KEY = "goduck:device-id";
+export const DEVICE_ID_HEADER = "X-Goduck-Device";
+
+const ARCHIVE_FORMAT = "goduck-saves";
+const ARCHIVE_VERSION = 1;
+// 인스턴스 종료를 세이브 플러시가 무한정 막지 않도록
+const FLUSH_TIMEOUT = 3000;
+
+export interface SaveFile {
+  path: string;
+  timestamp: number;
+  mode: number;
+  /** 디렉터리는 null */
+  contents: Uint8Array | null;
+}
+
+export interface SaveArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: typeof ARCHIVE_VERSION;
+  gameId: string;
+  /** 내보낸 기기의 persistentDataPath. 가져올 때 현재 기기의 경로로 옮김 */
+  scope: string;
+  exportedAt: number;
+  files: {
+    path: string;
+    timestamp: number;
+    mode: number;
+    /** base64. 디렉터리는 null */
+    contents: string | null;
+  }[];
+}
+
+interface IdbfsEntry {
+  timestamp: Date | number;
+  mode: number;
+  contents?: Uint8Array;
+}
+
+interface EmscriptenFS {
+  syncfs: (populate: boolean, callback: (error: unknown) => void) => void;
+}
+
+function isInScope(path: string, scope: string) {
+  return path === scope || path.startsWith(`${scope}/`);
+}
+
+/**
+ * `/idbfs` 바로 아래의 게임 폴더여야 함. 루트 전체나 상위 경로는 거부
+ */
+export function isValidSaveScope(scope: unknown): scope is string {
+  return (
+    typeof scope === "string" &&
+    scope.startsWith(`${IDBFS_ROOT}/`) &&
+    scope
+      .slice(IDBFS_ROOT.length + 1)
+      .split("/")
+      .every((segment) => segment !== "" && segment !== "." && segment !== "..")
+  );
+}
+
+const scopeListeners = new Set<() => void>();
+
+function handleScopeStorage(event: StorageEvent) {
+  if (event.key?.startsWith(SCOPE_STORAGE_PREFIX)) {
+    scopeListeners.forEach((listener) => listener());
+  }
+}
+
+export function subscribeSaveScope(listener: () => void) {
+  if (scopeListeners.size === 0) {
+    window.addEventListener("storage", handleScopeStorage);
+  }
+  scopeListeners.add(listener);
+  return () => {
+    scopeListeners.delete(listener);
+    if (scopeListeners.size === 0) {
+      window.removeEventListener("storage", handleScopeStorage);
+    }
+  };
+}
+
+/**
+ * 게임이 한 번도 경로를 알려주지 않았으면 null.
+ * 게임이 실행 중이 아니어도 세이브를 다룰 수 있도록 localStorage 에 보관합니다.
+ */
+export function readSaveScope(gameId: string) {
+  try {
+    const scope = localStorage.getItem(SCOPE_STORAGE_PREFIX + gameId);
+    return isValidSaveScope(scope) ? scope : null;
+  } catch {
+    return null;
+  }
+}
+
+export function writeSaveScope(gameId: string, scope: string) {
+  if (!isValidSaveScope(scope)) {
+    console.warn(`[UnitySaves] Ignoring invalid save path: ${scope}`);
+    return;
+  }
+  if (readSaveScope(gameId) === scope) return;
+  try {
+    localStorage.setItem(SCOPE_STORAGE_PREFIX + gameId, scope);
+  } catch (storageError) {
+    console.warn("[UnitySaves] Failed to persist save path:", storageError);
+  }
+  scopeListeners.forEach((listener) => listener());
+}
+
+/**
+ * 버전 없이 열어 Unity 가 만든 스키마를 그대로 사용. 게임을 한 번도 실행하지 않아
+ * 스토어가 없으면 null, `create` 면 Emscripten 과 같은 스키마로 만듦
+ */
+async function openIdbfs(create = false) {
+  const db = await requestToPromise(indexedDB.open(IDBFS_DB_NAME));
+  if (db.objectStoreNames.contains(IDBFS_STORE)) return db;
+  db.close();
+  if (!create || db.version >= IDBFS_DB_VERSION) return null;
+
+  const request = indexedDB.open(IDBFS_DB_NAME, IDBFS_DB_VERSION);
+  request.onupgradeneeded = () => {
+    const store = request.result.createObjectStore(IDBFS_STORE);
+    store.createIndex("timestamp", "timestamp", { unique: false });
+  };
+  return requestToPromise(request);
+}
+
+export async function listSaveFiles(scope: string): Promise<SaveFile[]> {
+  const db = await openIdbfs();
+  if (!db) return [];
+  try {
+    const store = db
+      .transaction(IDBFS_STORE, "readonly")
+      .objectStore(IDBFS_STORE);
+    const [keys, values] = await Promise.all([
+      requestToPromise(store.getAllKeys()),
+      requestToPromise<IdbfsEntry[]>(store.getAll()),
+    ]);
+    return keys
+      .map((key, index) => ({ path: String(key), entry: values[index] }))
+      .filter(({ path }) => isInScope(path, scope))
+      .map(({ path, entry }) => ({
+        path,
+        timestamp: new Date(entry.timestamp).getTime(),
+        mode: entry.mode,
+        contents: entry.contents ? new Uint8Array(entry.contents) : null,
+      }))
+      .sort((a, b) => a.path.localeCompare(b.path));
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * scope 아래 파일을 모두 지우고 files 로 교체. 실행 중인 인스턴스는 메모리에 이전
+ * 파일을 들고 있으므로 반드시 종료된 상태에서 호출해야 합니다.
+ */
+export async function replaceSaveFiles(files: SaveFile[], scope: string) {
+  if (!isValidSaveScope(scope)) throw new Error(`Invalid save path: ${scope}`);
+  const outside = files.find((file) => !isInScope(file.path, scope));
+  if (outside) {
+    throw new Error(`Save file is outside of ${scope}: ${outside.path}`);
+  }
+
+  const db = await openIdbfs(true);
+  if (!db) throw new Error("Unity save storage is unavailable");
+  try {
+    const transaction = db.transaction(IDBFS_STORE, "readwrite");
+    const done = transactionToPromise(transaction);
+    const store = transaction.objectStore(IDBFS_STORE);
+    const keys = await requestToPromise(store.getAllKeys());
+    keys
+      .filter((key) => isInScope(String(key), scope))
+      .forEach((key) => store.delete(key));
+    files.forEach((file) => {
+      const entry: IdbfsEntry = {
+        timestamp: new Date(file.timestamp),
+        mode: file.mode,
+      };
+      if (file.contents) entry.contents = file.contents;
+      store.put(entry, file.path);
+    });
+    await done;
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * 게임이 PlayerPrefs/파일을 저장하게 한 뒤 메모리 파일시스템을 IndexedDB 로 동기화.
+ * Unity 는 주기적으로만 동기화하므로 종료·내보내기 전에 호출합니다.
+ */
+export async function flushUnitySaves(instance: UnityInstance) {
+  trySendUnityMessage(instance, "SaveManager", "Flush");
+
+  const fs = instance.Module?.FS as EmscriptenFS | undefined;
+  if (typeof fs?.syncfs !== "function") return;
+
+  await Promise.race([
+    new Promise<void>((resolve) =>
+      fs.syncfs(false, (syncError) => {
+        if (syncError) {
+          console.warn("[UnitySaves] Failed to sync IDBFS:", syncError);
+        }
+        resolve();
+      })
+    ),
+    new Promise<void>((resolve) => setTimeout(resolve, FLUSH_TIMEOUT)),
+  ]);
+}
+
+function toBase64(bytes: Uint8Array) {
+  let binary = "";
+  const CHUNK = 0x8000;
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string) {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export function createSaveArchive(
+  gameId: string,
+  scope: string,
+  files: SaveFile[]
+): SaveArchive {
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    gameId,
+    scope,
+    exportedAt: Date.now(),
+    files: files.map((file) => ({
+      path: file.path,
+      timestamp: file.timestamp,
+      mode: file.mode,
+      contents: file.contents ? toBase64(file.contents) : null,
+    })),
+  };
+}
+
+/**
+ * 내보낸 아카이브(또는 서버 응답)를 검증. 다른 게임의 아카이브면 거부
+ */
+export function parseSaveArchive(data: unknown, gameId: string): SaveArchive {
+  const archive = data as Partial<SaveArchive> | null;
+  if (
+    !archive ||
+    archive.format !== ARCHIVE_FORMAT ||
+    archive.version !== ARCHIVE_VERSION ||
+    !Array.isArray(archive.files)
+  ) {
+    throw new Error("Not a save archive");
+  }
+  if (archive.gameId !== gameId) {
+    throw new Error(`Save archive belongs to "${archive.gameId}"`);
+  }
+  const { scope } = archive;
+  if (!isValidSaveScope(scope))
+    throw new Error("Save archive has no save path");
+  const valid = archive.files.every(
+    (file) =>
+      typeof file?.path === "string" &&
+      isInScope(file.path, scope) &&
+      typeof file.timestamp === "number" &&
+      typeof file.mode === "number" &&
+      (file.contents === null || typeof file.contents === "string")
+  );
+  if (!valid) throw new Error("Save archive contains invalid files");
+  return archive as SaveArchive;
+}
+
+/**
+ * 아카이브 파일을 scope 아래 경로로 옮겨 반환. persistentDataPath 는 빌드 URL 마다
+ * 달라지므로 다른 버전이나 기기에서 내보낸 세이브도 현재 게임 폴더로 복원됩니다.
+ */
+export function getArchiveFiles(
+  archive: SaveArchive,
+  scope: string
+): SaveFile[] {
+  return archive.files.map((file) => ({
+    path: scope + file.path.slice(archive.scope.length),
+    timestamp: file.timestamp,
+    mode: file.mode,
+    contents: file.contents === null ? null : fromBase64(file.contents),
+  }));
+}
+
+export function getSaveArchiveFileName(gameId: string) {
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-");
+  return `${gameId}-saves-${stamp}.json`;
+}
+
+/**
+ * 서버 백업을 기기별로 나누는 식별자. 처음 호출할 때 만들어 localStorage 에 보관
+ */
+function getDeviceId() {
+  let deviceId = localStorage.getItem(DEVICE_ID_STORAGE_KEY);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_STORAGE_KEY, deviceId);
+  }
+  return deviceId;
+}
+
+export async function uploadSaveArchive(archive: SaveArchive) {
+  const response = await fetch(
+    `/api/saves/${encodeURIComponent(archive.gameId)}`,
+    {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+        [DEVICE_ID_HEADER]: getDeviceId(),
+      },
+      body: JSON.stringify(archive),
+    }
+  );
+  if (!response.ok) {
+    throw new Error(`Failed to upload saves: HTTP ${response.status}`);
+  }
+}
+
+/**
+ * 서버에 백업이 없으면 null
+ */
+export async function fetchSaveArchive(gameId: string) {
+  const response = await fetch(`/api/saves/${encodeURIComponent(gameId)}`, {
+    cache: "no-store",
+    headers: { [DEVICE_ID_HEADER]: getDeviceId() },
+  });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Failed to fetch saves: HTTP ${response.status}`);
+  }
+  return parseSaveArchive(await response.json(), gameId);
+}
@@ -0,0 +1,62 @@
+export interface UnityBuildConfig {
+  buildName?: string;
+  dataUrl?: string;
+  frameworkUrl?: string;
+  codeUrl?: string | string[];
+  wasmCodeUrl?: string;
+  wasmFiles?: string[];
+  streamingAssetsUrl?: string;
+  companyName?: string;
+  productName?: string;
+  productVersion?: string;
+  arguments?: string[];
+}
+
+export type UnityBannerType = "error" | "warning" | "info";
+
+export interface UnityInstanceConfig {
+  dataUrl: string;
+  frameworkUrl: string;
+  codeUrl: string | string[];
+  streamingAssetsUrl: string;
+  companyName: string;
+  productName: string;
+  productVersion: string;
+  arguments?: string[];
+  showBanner?: (msg: string, type: UnityBannerType) => void;
+  [key: string]: unknown;
+}
+
+export interface UnityInstance {
+  Quit: () => Promise<void>;
+  SendMessage: (
+    gameObjectName: string,
+    methodName: string,
+    value?: string | number | boolean
+  ) => void;
+  SetFullscreen: (fullscreen: boolean) => void;
+  Module?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+/**
+ * 탭이 숨겨지거나 게임 영역이 화면 밖으로 나갔을 때의 동작.
+ * - `pause`: 게임 일시정지
+ * - `throttle`: 프레임레이트만 낮춤 (멀티플레이 등 멈추면 안 되는 게임)
+ * - `none`: 아무것도 하지 않음
+ * `none`이 아니면 오디오는 음소거합니다.
+ */
+export type BackgroundBehavior = "pause" | "throttle" | "none";
+
+export type UnityProgressCallback = (progress: number) => void;
+export type CreateUnityInstance = (
+  canvas: HTMLCanvasElement,
+  config: UnityInstanceConfig,
+  onProgress?: UnityProgressCallback
+) => Promise<UnityInstance>;
+
+declare global {
+  interface Window {
+    createUnityInstance?: CreateUnityInstance;
+  }
+}
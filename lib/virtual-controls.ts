@@ -0,0 +1,80 @@
+/**
+ * 가상 컨트롤 입력을 Unity 로 전달하는 방법.
+ * - `message`: 브리지 메시지. 조이스틱은 `{ x, y }`(-1~1, 위가 +y), 버튼은 눌림 여부(boolean)
+ * - `keys` / `key`: 합성 키보드 이벤트. 값은 `KeyboardEvent.code` ("ArrowUp", "Space", "KeyW" 등)
+ */
+export type MessageBinding = {
+  type: "message";
+  target: string;
+  method: string;
+};
+
+export type JoystickBinding =
+  | MessageBinding
+  | { type: "keys"; up: string; down: string; left: string; right: string };
+
+export type ButtonBinding = MessageBinding | { type: "key"; code: string };
+
+export interface VirtualJoystickConfig {
+  side: "left" | "right";
+  binding: JoystickBinding;
+}
+
+export interface VirtualButtonConfig {
+  id: string;
+  /** 버튼에 표시할 짧은 글자 */
+  label: string;
+  binding: ButtonBinding;
+}
+
+export interface VirtualControlsConfig {
+  joystick?: VirtualJoystickConfig;
+  /** 조이스틱 반대편에 아래 줄부터 두 개씩 배치 */
+  buttons?: VirtualButtonConfig[];
+}
+
+const SPECIAL_KEY_CODES: Record<string, { key: string; keyCode: number }> = {
+  ArrowUp: { key: "ArrowUp", keyCode: 38 },
+  ArrowDown: { key: "ArrowDown", keyCode: 40 },
+  ArrowLeft: { key: "ArrowLeft", keyCode: 37 },
+  ArrowRight: { key: "ArrowRight", keyCode: 39 },
+  Space: { key: " ", keyCode: 32 },
+  Enter: { key: "Enter", keyCode: 13 },
+  Escape: { key: "Escape", keyCode: 27 },
+  Tab: { key: "Tab", keyCode: 9 },
+  ShiftLeft: { key: "Shift", keyCode: 16 },
+  ControlLeft: { key: "Control", keyCode: 17 },
+};
+
+function describeKey(code: string) {
+  if (SPECIAL_KEY_CODES[code]) return SPECIAL_KEY_CODES[code];
+  const letter = code.match(/^Key([A-Z])$/);
+  if (letter) {
+    return { key: letter[1].toLowerCase(), keyCode: letter[1].charCodeAt(0) };
+  }
+  const digit = code.match(/^Digit(\d)$/);
+  if (digit) return { key: digit[1], keyCode: 48 + Number(digit[1]) };
+  return { key: code, keyCode: 0 };
+}
+
+/**
+ * Unity WebGL 은 window 의 키보드 이벤트를 읽고, 구버전은 keyCode 를 사용하므로 함께 채움
+ */
+export function dispatchVirtualKey(
+  code: string,
+  type: "keydown" | "keyup",
+  target: EventTarget = window
+) {
+  const { key, keyCode } = describeKey(code);
+  const event = new KeyboardEvent(type, {
+    key,
+    code,
+    bubbles: true,
+    cancelable: true,
+  });
+  Object.defineProperties(event, {
+    keyCode: { get: () => keyCode },
+    which: { get: () => keyCode },
+  });
+  target.dispatchEvent(event);
+}
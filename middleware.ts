@@ -1,13 +1,29 @@
 import createMiddleware from "next-intl/middleware";
+import { NextResponse, type NextRequest } from "next/server";
 import { locales } from "./i18n";
 
-export default createMiddleware({
+const handleI18nRouting = createMiddleware({
   locales,
   defaultLocale: "ko",
   localePrefix: "always",
 });
 
+// 확장자가 있는 /game/** 요청은 Content-Encoding, Range 를 처리하는 라우트로 보냄
+const GAME_ASSET_PATTERN = /^\/game\/.+\.[^/]+$/;
+
+export default function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  if (GAME_ASSET_PATTERN.test(pathname)) {
+    return NextResponse.rewrite(
+      new URL(
+        `/api/game-assets${pathname.slice("/game".length)}${search}`,
+        request.url
+      )
+    );
+  }
+  return handleI18nRouting(request);
+}
+
 export const config = {
-  matcher: ["/((?!api|_next|_vercel|.*\\..*).*)"],
+  matcher: ["/((?!api|_next|_vercel|.*\\..*).*)", "/game/:path*"],
 };
-
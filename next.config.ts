@@ -30,19 +30,11 @@ const nextConfig: NextConfig = {
         ],
       },
       {
-        source: "/game/:path*.unityweb",
+        source: "/unity-build-sw.js",
         headers: [
           {
-            key: "Content-Type",
-            value: "application/octet-stream",
-          },
-          {
-            key: "Cross-Origin-Embedder-Policy",
-            value: "require-corp",
-          },
-          {
-            key: "Cross-Origin-Opener-Policy",
-            value: "same-origin",
+            key: "Cache-Control",
+            value: "no-cache",
           },
         ],
       },
@@ -0,0 +1,130 @@
+// Unity 빌드 에셋(.unityweb, .wasm, .data ...)을 게임/빌드/버전별 Cache Storage에 보관하는 서비스 워커.
+// 페이지가 "unity-build:activate" 메시지로 빌드 경로와 캐시 이름을 알려주면,
+// 해당 경로 아래 요청을 cache-first로 응답합니다. 두 메시지 모두 에셋이 캐시에
+// 모두 있는지({ cached })를 응답합니다.
+
+const META_CACHE = "unity-build-meta";
+const META_PREFIX = "/__unity-build/";
+const ASSET_PATTERN = /\.(unityweb|wasm|data|js|br|gz|symbols\.json)$/;
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+async function saveMapping(buildPath, cacheName) {
+  const meta = await caches.open(META_CACHE);
+  await meta.put(
+    META_PREFIX + encodeURIComponent(buildPath),
+    new Response(JSON.stringify({ buildPath, cacheName }), {
+      headers: { "Content-Type": "application/json" },
+    })
+  );
+}
+
+// 캐시와 그 캐시를 가리키는 경로 매핑을 함께 삭제
+async function evictCaches(cacheNames) {
+  if (!cacheNames || cacheNames.length === 0) return;
+  const meta = await caches.open(META_CACHE);
+  for (const request of await meta.keys()) {
+    const response = await meta.match(request);
+    const mapping = response ? await response.json() : null;
+    if (!mapping || cacheNames.includes(mapping.cacheName)) {
+      await meta.delete(request);
+    }
+  }
+  await Promise.all(cacheNames.map((cacheName) => caches.delete(cacheName)));
+}
+
+async function isCached(cacheName, urls) {
+  if (!(await caches.has(cacheName))) return false;
+  const cache = await caches.open(cacheName);
+  const matches = await Promise.all(
+    urls.map((url) => cache.match(url, { ignoreSearch: true }))
+  );
+  return matches.every(Boolean);
+}
+
+async function findCacheName(pathname) {
+  const meta = await caches.open(META_CACHE);
+  const keys = await meta.keys();
+  let match = null;
+
+  for (const request of keys) {
+    const buildPath = decodeURIComponent(
+      new URL(request.url).pathname.slice(META_PREFIX.length)
+    );
+    if (
+      pathname.startsWith(buildPath + "/") &&
+      (!match || buildPath.length > match.buildPath.length)
+    ) {
+      const response = await meta.match(request);
+      match = await response.json();
+    }
+  }
+
+  return match ? match.cacheName : null;
+}
+
+async function cacheFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request, { ignoreSearch: true });
+  if (cached) {
+    return cached;
+  }
+
+  const response = await fetch(request);
+  if (response.status === 200) {
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function handleMessage(data) {
+  if (data.type === "unity-build:activate") {
+    await evictCaches(data.evict);
+    await saveMapping(data.buildPath, data.cacheName);
+  }
+  return { cached: await isCached(data.cacheName, data.urls || []) };
+}
+
+self.addEventListener("message", (event) => {
+  const data = event.data;
+  if (
+    !data ||
+    (data.type !== "unity-build:activate" && data.type !== "unity-build:status")
+  ) {
+    return;
+  }
+
+  event.waitUntil(
+    handleMessage(data).then((reply) => {
+      if (event.ports[0]) {
+        event.ports[0].postMessage(reply);
+      }
+    })
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const request = event.request;
+  if (request.method !== "GET" || request.headers.has("range")) return;
+
+  const url = new URL(request.url);
+  if (
+    url.origin !== self.location.origin ||
+    !url.pathname.startsWith("/game/") ||
+    !ASSET_PATTERN.test(url.pathname)
+  ) {
+    return;
+  }
+
+  event.respondWith(
+    findCacheName(url.pathname).then((cacheName) =>
+      cacheName ? cacheFirst(request, cacheName) : fetch(request)
+    )
+  );
+});
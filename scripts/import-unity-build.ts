@@ -0,0 +1,343 @@
+/**
+ * Unity WebGL 익스포트 폴더를 카탈로그 빌드로 가져옵니다.
+ *
+ *   yarn import-build <export-dir> --game <id> [--folder <name>] [--version <v>]
+ *     [--channel stable|beta|dev] [--default] [--title <text>] [--description <text>]
+ *     [--force] [--dry-run]
+ *
+ * 파일 이름과 압축 방식을 감지해 Build.json 을 만들고,
+ * `public/game/<folder>/versions/<version>/` 으로 복사한 뒤 game.json 의 builds 를 갱신합니다.
+ */
+import {
+  closeSync,
+  cpSync,
+  existsSync,
+  openSync,
+  readdirSync,
+  readFileSync,
+  readSync,
+  statSync,
+} from "node:fs";
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { parseBuildConfig } from "@/lib/unity/build-config";
+import {
+  COMPRESSION_SNIFF_BYTES,
+  detectUnityCompression,
+  type UnityCompression,
+} from "@/lib/unity/compression";
+import type { UnityBuildConfig } from "@/lib/unity/types";
+import { parseGameManifest, type BuildChannel } from "@/lib/game-manifest";
+
+type FileKind = "loader" | "data" | "framework" | "code";
+
+interface DetectedFile {
+  kind: FileKind;
+  name: string;
+  size: number;
+  compression: UnityCompression;
+}
+
+interface ReportLine {
+  severity: "error" | "warning" | "info";
+  message: string;
+}
+
+const GAMES_DIR = path.join(process.cwd(), "public", "game");
+const CHANNELS: BuildChannel[] = ["stable", "beta", "dev"];
+const FILE_PATTERNS: Record<Exclude<FileKind, "loader">, RegExp> = {
+  data: /^(.+)\.data(\.gz|\.br|\.unityweb)?$/,
+  framework: /^(.+)\.framework\.js(\.gz|\.br|\.unityweb)?$/,
+  code: /^(.+)\.wasm(\.gz|\.br|\.unityweb)?$/,
+};
+
+function fail(message: string): never {
+  console.error(`error: ${message}`);
+  process.exit(1);
+}
+
+function detectCompression(filePath: string) {
+  const head = Buffer.alloc(COMPRESSION_SNIFF_BYTES);
+  const fd = openSync(filePath, "r");
+  try {
+    const length = readSync(fd, head, 0, head.length, 0);
+    return detectUnityCompression(filePath, head.subarray(0, length));
+  } finally {
+    closeSync(fd);
+  }
+}
+
+function detectBuildFiles(buildDir: string, report: ReportLine[]) {
+  const entries = readdirSync(buildDir).filter((name) =>
+    statSync(path.join(buildDir, name)).isFile()
+  );
+  const loaders = entries.filter((name) => name.endsWith(".loader.js"));
+  if (loaders.length !== 1) {
+    fail(
+      `expected exactly one *.loader.js in ${buildDir}, found ${loaders.length}`
+    );
+  }
+  const buildName = loaders[0].slice(0, -".loader.js".length);
+
+  const files: DetectedFile[] = [
+    {
+      kind: "loader",
+      name: loaders[0],
+      size: statSync(path.join(buildDir, loaders[0])).size,
+      compression: "none",
+    },
+  ];
+  for (const [kind, pattern] of Object.entries(FILE_PATTERNS)) {
+    const matches = entries.filter((name) => pattern.exec(name)?.[1]);
+    if (matches.length === 0) {
+      report.push({ severity: "error", message: `missing ${kind} file` });
+      continue;
+    }
+    if (matches.length > 1) {
+      report.push({
+        severity: "warning",
+        message: `several ${kind} files (${matches.join(", ")}), using ${matches[0]}`,
+      });
+    }
+    const name = matches[0];
+    if (pattern.exec(name)?.[1] !== buildName) {
+      report.push({
+        severity: "warning",
+        message: `${name} does not share the loader's build name "${buildName}"`,
+      });
+    }
+    const filePath = path.join(buildDir, name);
+    files.push({
+      kind: kind as FileKind,
+      name,
+      size: statSync(filePath).size,
+      compression: detectCompression(filePath),
+    });
+  }
+
+  const compressions = new Set(
+    files
+      .filter((file) => file.kind !== "loader")
+      .map((file) => file.compression)
+  );
+  if (compressions.size > 1) {
+    report.push({
+      severity: "warning",
+      message: `mixed compression formats: ${[...compressions].join(", ")}`,
+    });
+  }
+  return { buildName, files };
+}
+
+/**
+ * Unity 기본 템플릿 index.html 의 createUnityInstance 설정에서 메타데이터를 읽음
+ */
+function readTemplateConfig(exportDir: string) {
+  const indexPath = path.join(exportDir, "index.html");
+  if (!existsSync(indexPath)) return {};
+  const html = readFileSync(indexPath, "utf8");
+  const read = (field: string) =>
+    html.match(new RegExp(`${field}\\s*:\\s*"([^"]*)"`))?.[1];
+  return {
+    companyName: read("companyName"),
+    productName: read("productName"),
+    productVersion: read("productVersion"),
+  };
+}
+
+/**
+ * public/game/<folder>/game.json 중 해당 id 를 선언한 폴더 목록. 읽을 수 없는 매니페스트는 건너뜀
+ */
+function findGameFolders(gameId: string) {
+  if (!existsSync(GAMES_DIR)) return [];
+  return readdirSync(GAMES_DIR, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .filter((folder) => {
+      const manifestPath = path.join(GAMES_DIR, folder, "game.json");
+      if (!existsSync(manifestPath)) return false;
+      try {
+        return JSON.parse(readFileSync(manifestPath, "utf8")).id === gameId;
+      } catch {
+        return false;
+      }
+    })
+    .sort();
+}
+
+function formatSize(bytes: number) {
+  return bytes < 1024 * 1024
+    ? `${(bytes / 1024).toFixed(1)} KB`
+    : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      game: { type: "string" },
+      folder: { type: "string" },
+      version: { type: "string" },
+      channel: { type: "string", default: "stable" },
+      default: { type: "boolean", default: false },
+      title: { type: "string" },
+      description: { type: "string" },
+      force: { type: "boolean", default: false },
+      "dry-run": { type: "boolean", default: false },
+    },
+  });
+
+  const exportDir = positionals[0] && path.resolve(positionals[0]);
+  if (!exportDir || !values.game) {
+    fail("usage: import-unity-build <export-dir> --game <id> [options]");
+  }
+  const buildDir = path.join(exportDir, "Build");
+  if (!existsSync(buildDir)) fail(`${buildDir} does not exist`);
+  const channel = values.channel as BuildChannel;
+  if (!CHANNELS.includes(channel)) {
+    fail(`--channel must be one of ${CHANNELS.join(", ")}`);
+  }
+  const dryRun = values["dry-run"];
+
+  const report: ReportLine[] = [];
+  const { buildName, files } = detectBuildFiles(buildDir, report);
+  const template = readTemplateConfig(exportDir);
+  const version = values.version ?? template.productVersion;
+  if (!version) fail("could not detect productVersion, pass --version");
+  if (!/^[\w.+-]+$/.test(version)) fail(`invalid version "${version}"`);
+
+  const fileName = (kind: FileKind) =>
+    files.find((file) => file.kind === kind)?.name;
+  const buildConfig: UnityBuildConfig = {
+    buildName,
+    dataUrl: fileName("data"),
+    frameworkUrl: fileName("framework"),
+    codeUrl: fileName("code"),
+    companyName: template.companyName,
+    productName: template.productName ?? buildName,
+    productVersion: version,
+  };
+  parseBuildConfig(buildConfig).issues.forEach((issue) =>
+    report.push({
+      severity: issue.severity,
+      message: `Build.json ${issue.code}${issue.field ? ` (${issue.field})` : ""}${issue.detail ? `: ${issue.detail}` : ""}`,
+    })
+  );
+
+  // 이미 등록된 게임이면 그 매니페스트가 있는 폴더에 추가 (빌드 이름이 바뀌어도 같은 폴더)
+  const ownerFolders = findGameFolders(values.game);
+  const folder = values.folder ?? ownerFolders[0] ?? buildName;
+  if (ownerFolders.length > 1) {
+    report.push({
+      severity: "error",
+      message: `game id "${values.game}" is declared by several folders (${ownerFolders.join(", ")})`,
+    });
+  } else if (ownerFolders.length === 1 && ownerFolders[0] !== folder) {
+    report.push({
+      severity: "error",
+      message: `game id "${values.game}" is already declared by public/game/${ownerFolders[0]}/game.json`,
+    });
+  }
+  const gameDir = path.join(GAMES_DIR, folder);
+  const versionPath = `versions/${version}`;
+  const targetDir = path.join(gameDir, versionPath);
+  if (existsSync(targetDir) && !values.force) {
+    report.push({
+      severity: "error",
+      message: `${path.relative(process.cwd(), targetDir)} already exists (use --force to overwrite)`,
+    });
+  }
+
+  // 매니페스트 갱신: 같은 id 빌드는 교체하고 새 빌드는 맨 앞(최신)에 추가
+  const manifestPath = path.join(gameDir, "game.json");
+  const manifest: Record<string, unknown> = existsSync(manifestPath)
+    ? JSON.parse(readFileSync(manifestPath, "utf8"))
+    : {
+        id: values.game,
+        title: { ko: values.title ?? buildConfig.productName },
+        description: {
+          ko: values.description ?? buildConfig.productName,
+        },
+        tags: [],
+      };
+  if (manifest.id !== values.game) {
+    fail(`${manifestPath} belongs to "${manifest.id}", not "${values.game}"`);
+  }
+  const previousBuilds = (
+    (manifest.builds ?? (manifest.build ? [manifest.build] : [])) as Record<
+      string,
+      unknown
+    >[]
+  ).filter((build) => build.id !== version);
+  delete manifest.build;
+  manifest.builds = [
+    {
+      id: version,
+      channel,
+      path: versionPath,
+      folder: "Build",
+      name: buildName,
+    },
+    ...previousBuilds,
+  ];
+  if (values.default) manifest.defaultBuild = version;
+  try {
+    const warnings: string[] = [];
+    parseGameManifest(manifest, folder, warnings);
+    warnings.forEach((warning) =>
+      report.push({ severity: "warning", message: `game.json: ${warning}` })
+    );
+  } catch (manifestError) {
+    report.push({
+      severity: "error",
+      message: `game.json: ${(manifestError as Error).message}`,
+    });
+  }
+
+  console.log(`Unity build ${buildName} ${version} (${channel})`);
+  files.forEach((file) =>
+    console.log(
+      `  ${file.kind.padEnd(9)} ${file.name.padEnd(40)} ${formatSize(file.size).padStart(10)}  ${file.compression}`
+    )
+  );
+  console.log(`  target    ${path.relative(process.cwd(), targetDir)}`);
+  if (existsSync(path.join(exportDir, "StreamingAssets"))) {
+    console.log("  assets    StreamingAssets/");
+  }
+  report.forEach((line) =>
+    console.log(`${line.severity.padEnd(7)} ${line.message}`)
+  );
+
+  const errors = report.filter((line) => line.severity === "error").length;
+  if (errors > 0) {
+    console.error(`\n${errors} error(s), nothing was written.`);
+    process.exit(1);
+  }
+  if (dryRun) {
+    console.log("\nDry run, nothing was written.");
+    return;
+  }
+
+  await mkdir(targetDir, { recursive: true });
+  cpSync(buildDir, path.join(targetDir, "Build"), { recursive: true });
+  const streamingAssets = path.join(exportDir, "StreamingAssets");
+  if (existsSync(streamingAssets)) {
+    cpSync(streamingAssets, path.join(targetDir, "StreamingAssets"), {
+      recursive: true,
+    });
+  }
+  await writeFile(
+    path.join(targetDir, "Build", "Build.json"),
+    `${JSON.stringify(buildConfig, null, 2)}\n`
+  );
+  await writeFile(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`);
+  console.log(
+    `\nImported into ${path.relative(process.cwd(), targetDir)} and updated ${path.relative(process.cwd(), manifestPath)}.`
+  );
+}
+
+main().catch((importError) => {
+  console.error(importError);
+  process.exit(1);
+});